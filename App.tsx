@@ -1,388 +1,509 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Square, RotateCcw, Settings, Wind, Timer, HeartPulse, X, Check } from 'lucide-react';
-import { SessionPhase, SessionStats, DEFAULT_SETTINGS, BreathingSettings } from './types';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { Play, Pause, Square, RotateCcw, Settings, Wind, Timer, HeartPulse, X, Check, History, BarChart3, Trophy, Download, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SessionPhase, SessionStats, BreathingSettings, BreathingProtocol, VoiceSettings, HapticSettings, SessionPreferences, SessionCheckpoint } from './types';
 import { BreathingCircle } from './components/BreathingCircle';
+import { HistorySheet } from './components/HistorySheet';
+import { ProgressSheet } from './components/ProgressSheet';
+import { SettingsSheet } from './components/SettingsSheet';
+import { ExportSheet } from './components/ExportSheet';
+import { ResumeSheet } from './components/ResumeSheet';
+import { SafetySheet } from './components/SafetySheet';
+import { HeartRateBadge } from './components/HeartRateBadge';
 import { useWakeLock } from './hooks/useWakeLock';
-import { initAudio, playInhale, playExhale, playBell } from './services/audio';
+import { useAutoPause } from './hooks/useAutoPause';
+import { useServiceWorkerUpdate } from './hooks/useServiceWorkerUpdate';
+import { useSessionShortcuts } from './hooks/useSessionShortcuts';
+import { useMediaSession } from './hooks/useMediaSession';
+import { useHoldAlarm } from './hooks/useHoldAlarm';
+import { useHoldSeconds } from './hooks/useHoldSeconds';
+import { useHeartRate } from './hooks/useHeartRate';
+import { useSessionEngine } from './hooks/useSessionEngine';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { useProfiles } from './hooks/useProfiles';
+import { useCustomProtocols } from './hooks/useCustomProtocols';
+import { useMixerSettings } from './hooks/useMixerSettings';
+import { useThemeSettings } from './hooks/useThemeSettings';
+import { useI18n } from './hooks/useI18n';
+import { initAudio, releaseAudio, suspendAudio, playInhale, playExhale, playBell, playPip, audioClock } from './services/audio';
+import { SessionEvent, SessionState } from './services/sessionEngine';
+import { findProtocol, planProtocol, estimatePlanMs } from './services/protocols';
+import { createVoiceCoach } from './services/voice';
+import { createHapticCoach } from './services/haptics';
+import { startSoundscape, setSoundscapeMood, stopSoundscape } from './services/soundscapes';
+import { saveCheckpoint, loadCheckpoint, clearCheckpoint } from './services/checkpoint';
+import { DEFAULT_PROFILE_ID } from './services/profiles';
+import { sanitizeSettings } from './services/settings';
+import { describeEvent } from './services/announcer';
+import { createHeartRateRecorder, summarizeHeartRate } from './services/heartRate';
+import { acknowledgeSafety, holdAlarmLevel, needsSafetyAcknowledgement } from './services/safety';
+import { startBreathListener } from './services/breathListener';
+import { formatClock } from './services/i18n';
+import { createId } from './utils/id';
+import { bestHoldsByRound, newPersonalBests } from './utils/progress';
 
 const App: React.FC = () => {
   // -- State --
-  const [phase, setPhase] = useState<SessionPhase>(SessionPhase.IDLE);
-  const [round, setRound] = useState(1);
-  const [breathCount, setBreathCount] = useState(0);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [isInhale, setIsInhale] = useState(false);
-  const [sessionStats, setSessionStats] = useState<SessionStats[]>([]);
-  
-  // Settings State
-  const [settings, setSettings] = useState<BreathingSettings>(DEFAULT_SETTINGS);
+  const { t } = useI18n();
+  const {
+    profile, profiles, updateActive, switchProfile, addProfile, removeProfile, savePreset, applyPreset, deletePreset,
+  } = useProfiles();
+  // Settings, voice, haptics and preferences live on the active profile and persist with it
+  const { settings, voice: voiceSettings, haptics, preferences } = profile;
+  const setSettings = useCallback((next: BreathingSettings) => updateActive(() => ({ settings: sanitizeSettings(next) })), [updateActive]);
+  const setVoiceSettings = useCallback((voice: VoiceSettings) => updateActive(() => ({ voice })), [updateActive]);
+  const setHaptics = useCallback((next: HapticSettings) => updateActive(() => ({ haptics: next })), [updateActive]);
+  const setPreferences = useCallback((next: SessionPreferences) => updateActive(() => ({ preferences: next })), [updateActive]);
+  const [mixer, setMixer] = useMixerSettings();
+  const [theme, setTheme] = useThemeSettings();
   const [showSettings, setShowSettings] = useState(false);
-
-  // -- Refs --
-  const timerRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number>(0);
-
-  // Keep screen awake
-  useWakeLock(phase !== SessionPhase.IDLE && phase !== SessionPhase.COMPLETED);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [safetyAcknowledged, setSafetyAcknowledged] = useState(() => !needsSafetyAcknowledgement());
+  // A session start waiting on the safe-environment check
+  const [pendingStart, setPendingStart] = useState<(() => void) | null>(null);
+
+  const applyUpdate = useServiceWorkerUpdate();
+  const { sessions, recordSession, removeSession, importSessions } = useSessionHistory(profile.id);
+  const { protocols: customProtocols, saveProtocol, deleteProtocol } = useCustomProtocols();
+  const protocol = findProtocol(settings, customProtocols);
+
+  // The session currently running, until it has been written to history
+  const activeSessionRef = useRef<{ startedAt: number; settings: BreathingSettings; protocol: BreathingProtocol; profileId: string } | null>(null);
+  // A session that was still running when the app last closed
+  const [interrupted, setInterrupted] = useState<SessionCheckpoint | null>(loadCheckpoint);
+  // Bests as they stood before the current session, so the completion screen can flag new records
+  const [previousBests, setPreviousBests] = useState<Record<number, number>>({});
 
   // -- Helpers --
-  const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = Math.floor(seconds % 60);
-    return `${m}:${s.toString().padStart(2, '0')}`;
-  };
-
-  const playSound = useCallback((type: 'inhale' | 'exhale' | 'bell') => {
-    const breathDuration = settings.tempoMs / 2;
-    
+  // `at` is on the audio clock in ms; sounds are queued for that exact time
+  const playSound = useCallback((type: 'inhale' | 'exhale' | 'bell' | 'pip', at: number, durationMs = 0) => {
+    const when = at / 1000;
     try {
-        if (type === 'inhale') playInhale(breathDuration);
-        if (type === 'exhale') playExhale(breathDuration);
-        if (type === 'bell') playBell();
+        if (type === 'inhale') playInhale(durationMs, when);
+        if (type === 'exhale') playExhale(durationMs, when);
+        if (type === 'bell') playBell(when);
+        if (type === 'pip') playPip(when);
     } catch (e) {
         // Silent fail
     }
-
-    if (navigator.vibrate) {
-      if (type === 'inhale') navigator.vibrate(20);
-      if (type === 'exhale') navigator.vibrate(10);
-      if (type === 'bell') navigator.vibrate([50, 50, 50]);
+  }, []);
+
+  // Heart-rate samples for the session currently running
+  const heartRecorder = useMemo(() => createHeartRateRecorder(), []);
+
+  // Closes the microphone while a session is following real breaths
+  const stopListeningRef = useRef<(() => void) | null>(null);
+  const [followingBreath, setFollowingBreath] = useState(false);
+
+  const stopListening = useCallback(() => {
+    stopListeningRef.current?.();
+    stopListeningRef.current = null;
+    setFollowingBreath(false);
+  }, []);
+
+  const archiveSession = useCallback((stats: SessionStats[], completed: boolean) => {
+    const active = activeSessionRef.current;
+    if (!active) return;
+    activeSessionRef.current = null;
+    const heartRate = heartRecorder.samples();
+    recordSession({
+      id: createId(),
+      startedAt: active.startedAt,
+      durationMs: Date.now() - active.startedAt,
+      completed,
+      settings: active.settings,
+      protocolName: active.protocol.name,
+      profileId: active.profileId,
+      stats,
+      ...(heartRate.length > 0 && { heartRate: [...heartRate] }),
+    });
+  }, [recordSession, heartRecorder]);
+
+  const checkpointSession = useCallback((state: SessionState) => {
+    const active = activeSessionRef.current;
+    if (!active) return;
+    saveCheckpoint({
+      startedAt: active.startedAt,
+      savedAt: Date.now(),
+      phase: state.phase,
+      round: state.round,
+      totalRounds: state.totalRounds,
+      step: state.step,
+      breathCount: state.breathCount,
+      stats: state.stats,
+      settings: active.settings,
+      protocol: active.protocol,
+      profileId: active.profileId,
+    });
+  }, []);
+
+  // Latest screen-reader announcement, rendered into an ARIA live region
+  const [announcement, setAnnouncement] = useState('');
+
+  const voiceCoach = useMemo(() => createVoiceCoach(voiceSettings), [voiceSettings]);
+  const hapticCoach = useMemo(() => createHapticCoach(haptics, audioClock), [haptics]);
+
+  // -- Session Engine --
+  const handleSessionEvent = useCallback((event: SessionEvent, state: SessionState) => {
+    hapticCoach(event, state);
+    const spoken = describeEvent(event, state);
+    if (spoken) setAnnouncement(spoken);
+    // Haptics-only practice: the engine runs as usual but nothing is heard
+    if (!haptics.silent) {
+      voiceCoach(event, state);
+      // The breaths are the user's own when following the microphone, so they aren't voiced
+      const followed = stopListeningRef.current !== null && state.phase === SessionPhase.BREATHING;
+      if ((event.type === 'inhale' || event.type === 'exhale') && !followed) playSound(event.type, event.at, event.durationMs);
+      if (event.type === 'bell') playSound('bell', event.at);
+      if (event.type === 'countdown') playSound('pip', event.at);
     }
-  }, [settings.tempoMs]);
-
-  // -- Logic Engine --
-
-  const startSession = async () => {
-    await initAudio();
-    setPhase(SessionPhase.BREATHING);
-    setRound(1);
-    setBreathCount(1);
-    setIsInhale(true);
-    setSessionStats([]);
-    playSound('inhale');
-    startBreathingCycle();
-  };
+    if (event.type === 'phase') {
+      if (event.phase === SessionPhase.IDLE || event.phase === SessionPhase.COMPLETED) {
+        stopSoundscape();
+        stopListening();
+      } else {
+        setSoundscapeMood(event.phase);
+      }
+    }
+    if (event.type === 'phase' && event.phase === SessionPhase.COMPLETED) archiveSession(state.stats, true);
 
-  const startBreathingCycle = useCallback(() => {
-    if (timerRef.current) clearInterval(timerRef.current);
-
-    const intervalDuration = settings.tempoMs / 2;
-
-    timerRef.current = window.setInterval(() => {
-      setIsInhale(prev => {
-        const nextIsInhale = !prev;
-        
-        if (nextIsInhale) {
-            setBreathCount(c => {
-                const nextCount = c + 1;
-                if (nextCount > settings.breathsPerRound) {
-                    startRetention();
-                    return c;
-                }
-                playSound('inhale');
-                return nextCount;
-            });
-        } else {
-            playSound('exhale');
-        }
-        return nextIsInhale;
-      });
-    }, intervalDuration);
-  }, [settings, playSound]);
-
-  // Fix: Use ref to access latest startRetention function or dependencies if needed, 
-  // but since we are inside the component, we just need to make sure startRetention is available.
-  // To avoid closure staleness in setInterval, we used functional updates.
-  // However, calling `startRetention` from inside the interval callback needs to be careful.
-  // We'll use a useEffect to watch breathCount if we want to be purely reactive, 
-  // but the current imperative approach inside setBreathCount callback works if we are careful.
-  // Actually, calling startRetention (which sets state/clears interval) inside a setState callback is risky.
-  // Better approach: Check logic in the interval.
-  
-  // Let's Refactor startBreathingCycle to be safer with closures using a recursive timeout or simpler interval
-  // The previous implementation had a potential bug calling startRetention inside setState.
-  // Let's fix that logic:
-
-  // Re-implementing the cycle starter to be robust
-  useEffect(() => {
-    if (phase === SessionPhase.BREATHING) {
-        // Cycle logic is handled by the interval established in startBreathingCycle
-        // But we need to handle the transition trigger carefully.
+    // Checkpoint every transition (and each breath, so the count survives too) until the session ends
+    if (event.type === 'phase' && (event.phase === SessionPhase.IDLE || event.phase === SessionPhase.COMPLETED)) {
+      clearCheckpoint();
+    } else if (event.type === 'phase' || event.type === 'inhale' || event.type === 'pause') {
+      checkpointSession(state);
     }
-  }, [phase]);
-
-  // We need to hoist startRetention so it can be called safely
-  const startRetention = useCallback(() => {
-    if (timerRef.current) clearInterval(timerRef.current);
-    setPhase(SessionPhase.RETENTION);
-    setElapsedTime(0);
-    lastTimeRef.current = Date.now();
-    playSound('bell');
-    
-    timerRef.current = window.setInterval(() => {
-      const now = Date.now();
-      const delta = (now - lastTimeRef.current) / 1000;
-      lastTimeRef.current = now;
-      setElapsedTime(prev => prev + delta);
-    }, 100);
-  }, [playSound]);
-
-  // Re-binding the cycle with the hoisted startRetention
-  const activeCycleRef = useRef<number>(0); // To track active interval ID
-
-  const runBreathingStep = useCallback(() => {
-      setIsInhale(currentIsInhale => {
-          const nextIsInhale = !currentIsInhale;
-          
-          if (nextIsInhale) {
-              // Starting Inhale
-              setBreathCount(currentCount => {
-                  const nextCount = currentCount + 1;
-                  if (nextCount > settings.breathsPerRound) {
-                      // STOP everything immediately
-                      if (activeCycleRef.current) clearInterval(activeCycleRef.current);
-                      startRetention();
-                      return currentCount; 
-                  }
-                  playSound('inhale');
-                  return nextCount;
-              });
-          } else {
-              // Starting Exhale
-              playSound('exhale');
-          }
-          return nextIsInhale;
-      });
-  }, [settings.breathsPerRound, startRetention, playSound]);
-
-  const startBreathingCycleSafe = useCallback(() => {
-      if (activeCycleRef.current) clearInterval(activeCycleRef.current);
-      const interval = settings.tempoMs / 2;
-      activeCycleRef.current = window.setInterval(runBreathingStep, interval);
-      timerRef.current = activeCycleRef.current;
-  }, [settings.tempoMs, runBreathingStep]);
-
-  // Update the main start function to use safe version
-  const startSessionWrapper = async () => {
+  }, [playSound, archiveSession, checkpointSession, voiceCoach, hapticCoach, haptics.silent, stopListening]);
+
+  const { state: session, engine } = useSessionEngine(handleSessionEvent, audioClock);
+  const {
+    phase, round, totalRounds, breathCount, breathTarget, breathStage,
+    elapsed, phaseDurationMs, stageStartedAt, stageDurationMs, paused, stats: sessionStats,
+  } = session;
+  const timedRemaining = Math.max(0, phaseDurationMs / 1000 - elapsed);
+
+  // The strap can stay connected between sessions; samples are only kept while one runs
+  const heartRate = useHeartRate(measurement => {
+    const active = activeSessionRef.current;
+    if (!active) return;
+    const current = engine.getState();
+    heartRecorder.add(measurement, current.phase, current.round, (Date.now() - active.startedAt) / 1000);
+  });
+  const isRunning = phase !== SessionPhase.IDLE && phase !== SessionPhase.COMPLETED;
+
+  // Keep screen awake, but let it sleep while paused
+  useWakeLock(isRunning && !paused);
+
+  const launchSession = async (runProtocol: BreathingProtocol, runSettings: BreathingSettings, from?: SessionCheckpoint) => {
+    // A session without sound still runs, timed by the page clock
+    try {
       await initAudio();
-      setPhase(SessionPhase.BREATHING);
-      setRound(1);
-      setBreathCount(1);
-      setIsInhale(true);
-      setSessionStats([]);
-      playSound('inhale');
-      startBreathingCycleSafe();
+    } catch (err) {
+      console.warn('Could not start audio', err);
+      releaseAudio();
+      setAnnouncement(t.app.audioUnavailable);
+    }
+    activeSessionRef.current = {
+      startedAt: from?.startedAt ?? Date.now(),
+      settings: { ...runSettings },
+      protocol: runProtocol,
+      profileId: from?.profileId ?? profile.id,
+    };
+    setPreviousBests(bestHoldsByRound(sessions));
+    heartRecorder.reset();
+    if (!haptics.silent) startSoundscape(mixer.soundscape, mixer.binauralBeat);
+
+    // Without a microphone the session falls back to keeping time itself
+    stopListening();
+    if (preferences.followMicrophone) {
+      try {
+        stopListeningRef.current = await startBreathListener(detection => engine.reportBreath(detection.stage));
+        setFollowingBreath(true);
+      } catch (err) {
+        console.warn('Could not open the microphone', err);
+        setAnnouncement(t.app.microphoneUnavailable);
+      }
+    }
+    engine.start(planProtocol(runProtocol, runSettings), from, { followBreath: stopListeningRef.current !== null });
+  };
+
+  // Every way into a session goes through the safe-environment check while it is switched on
+  const confirmThenStart = (start: () => void) => {
+    if (preferences.confirmSafeEnvironment) setPendingStart(() => start);
+    else start();
   };
 
-  const resumeBreathing = () => {
-      setPhase(SessionPhase.BREATHING);
-      setBreathCount(1);
-      setIsInhale(true);
-      playSound('inhale');
-      startBreathingCycleSafe();
-  }
-
-  const endRetention = () => {
-    setSessionStats(prev => [...prev, { round, retentionTime: elapsedTime }]);
-    if (timerRef.current) clearInterval(timerRef.current);
-    
-    setPhase(SessionPhase.RECOVERY);
-    setElapsedTime(15); 
-    playSound('inhale'); 
-    
-    timerRef.current = window.setInterval(() => {
-      setElapsedTime(prev => {
-        if (prev <= 0.1) {
-           finishRound();
-           return 0;
-        }
-        return prev - 0.1;
-      });
-    }, 100);
+  const confirmPendingStart = () => {
+    const start = pendingStart;
+    setPendingStart(null);
+    start?.();
   };
 
-  const finishRound = useCallback(() => {
-    if (timerRef.current) clearInterval(timerRef.current);
-    
-    setRound(r => {
-        if (r >= settings.totalRounds) {
-            setPhase(SessionPhase.COMPLETED);
-            playSound('bell');
-            return r;
-        } else {
-            // Trigger next round automatically? Or wait?
-            // Wim Hof usually continues immediately.
-            setTimeout(() => {
-               resumeBreathing();
-               setRound(prev => prev + 1);
-            }, 1000);
-            return r;
-        }
+  const startSession = () => confirmThenStart(() => launchSession(protocol, settings));
+
+  const resumeInterrupted = () => {
+    if (!interrupted) return;
+    setInterrupted(null);
+    if (interrupted.profileId) switchProfile(interrupted.profileId);
+    launchSession(interrupted.protocol, interrupted.settings, interrupted);
+  };
+
+  const saveInterrupted = () => {
+    if (!interrupted) return;
+    recordSession({
+      id: createId(),
+      startedAt: interrupted.startedAt,
+      durationMs: interrupted.savedAt - interrupted.startedAt,
+      completed: false,
+      settings: interrupted.settings,
+      protocolName: interrupted.protocol.name,
+      profileId: interrupted.profileId ?? DEFAULT_PROFILE_ID,
+      stats: interrupted.stats,
     });
-  }, [settings.totalRounds, playSound, startBreathingCycleSafe]); // Added deps
+    discardInterrupted();
+  };
 
-  const stopSession = () => {
-    if (timerRef.current) clearInterval(timerRef.current);
-    if (activeCycleRef.current) clearInterval(activeCycleRef.current);
-    setPhase(SessionPhase.IDLE);
-    setBreathCount(0);
-    setElapsedTime(0);
+  const discardInterrupted = () => {
+    clearCheckpoint();
+    setInterrupted(null);
   };
 
-  // -- Views --
+  const endRetention = () => engine.endRetention();
 
-  const SettingsSheet = () => {
-    if (!showSettings) return null;
-    
-    return (
-        <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={() => setShowSettings(false)}>
-            <div className="w-full bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl transform transition-transform duration-300" onClick={e => e.stopPropagation()}>
-                <div className="flex justify-between items-center mb-8">
-                    <h3 className="text-xl font-bold text-white">Settings</h3>
-                    <button onClick={() => setShowSettings(false)} className="p-2 bg-slate-700 rounded-full text-slate-300">
-                        <X className="w-5 h-5" />
-                    </button>
-                </div>
+  const skipPrepare = () => engine.skipPrepare();
 
-                <div className="space-y-8">
-                    {/* Breaths per Round */}
-                    <div>
-                        <div className="flex justify-between text-sm mb-3 text-slate-400">
-                            <span>Breaths per Round</span>
-                            <span className="text-cyan-400 font-mono font-bold">{settings.breathsPerRound}</span>
-                        </div>
-                        <input 
-                            type="range" min="20" max="60" step="5"
-                            value={settings.breathsPerRound}
-                            onChange={(e) => setSettings({...settings, breathsPerRound: parseInt(e.target.value)})}
-                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
-                        />
-                        <div className="flex justify-between text-xs text-slate-600 mt-2 font-mono">
-                            <span>20</span>
-                            <span>40</span>
-                            <span>60</span>
-                        </div>
-                    </div>
+  // Space, Enter, the headset's next button: skip the lead-in, end the hold or close the summary
+  const advance = () => {
+    if (phase === SessionPhase.COMPLETED) stopSession();
+    else if (phase === SessionPhase.PREPARE) skipPrepare();
+    else endRetention();
+  };
 
-                    {/* Speed */}
-                    <div>
-                        <div className="flex justify-between text-sm mb-3 text-slate-400">
-                            <span>Breathing Speed</span>
-                            <span className="text-cyan-400 font-mono font-bold">
-                                {settings.tempoMs === 2500 ? 'FAST' : settings.tempoMs === 3500 ? 'NORMAL' : 'SLOW'}
-                            </span>
-                        </div>
-                        <div className="grid grid-cols-3 gap-3">
-                            {[2500, 3500, 5000].map((speed) => (
-                                <button
-                                    key={speed}
-                                    onClick={() => setSettings({...settings, tempoMs: speed})}
-                                    className={`py-3 rounded-xl text-sm font-bold transition-all ${
-                                        settings.tempoMs === speed 
-                                        ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20' 
-                                        : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
-                                    }`}
-                                >
-                                    {speed === 2500 ? 'Fast' : speed === 3500 ? 'Normal' : 'Relaxed'}
-                                </button>
-                            ))}
-                        </div>
-                    </div>
-                    
-                    {/* Rounds */}
-                    <div>
-                        <div className="flex justify-between text-sm mb-3 text-slate-400">
-                            <span>Number of Rounds</span>
-                            <span className="text-cyan-400 font-mono font-bold">{settings.totalRounds}</span>
-                        </div>
-                        <div className="flex gap-3">
-                             {[1, 3, 5].map((r) => (
-                                <button
-                                    key={r}
-                                    onClick={() => setSettings({...settings, totalRounds: r})}
-                                    className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all ${
-                                        settings.totalRounds === r
-                                        ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20' 
-                                        : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
-                                    }`}
-                                >
-                                    {r}
-                                </button>
-                             ))}
-                        </div>
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
+  const pauseSession = () => {
+    engine.pause();
+    suspendAudio();
+  };
+
+  // The session clock is the audio clock, so the session stays paused until the audio runs again
+  const resumeSession = async () => {
+    try {
+      await initAudio();
+    } catch (err) {
+      console.warn('Could not resume audio', err);
+      setAnnouncement(t.app.audioResumeFailed);
+      return;
+    }
+    engine.resume();
   };
 
+  useAutoPause(preferences.autoPauseWhenHidden && isRunning && !paused, pauseSession);
+
+  const stopSession = () => {
+    // Completed sessions are already archived; anything still active was aborted.
+    // A hold that set off the max-hold alarm is kept even though it never finished.
+    const state = engine.getState();
+    const stats = state.phase === SessionPhase.RETENTION && state.holdAlarms.length > 0
+      ? [...state.stats, { round: state.round, retentionTime: state.elapsed, alarms: state.holdAlarms }]
+      : state.stats;
+    archiveSession(stats, false);
+    engine.stop();
+  };
+
+  // Holds past the maximum chime, then escalate until someone ends the hold, paused or not
+  const holdSeconds = useHoldSeconds(phase === SessionPhase.RETENTION, paused, elapsed);
+  const alarmLevel = phase === SessionPhase.RETENTION ? holdAlarmLevel(holdSeconds, preferences.maxHoldSeconds) : null;
+  useHoldAlarm(alarmLevel, level => {
+    engine.recordHoldAlarm(level);
+    setAnnouncement(level === 'chime' ? t.safety.chimeAnnouncement : t.safety.alarmAnnouncement);
+  });
+
+  const togglePause = () => (paused ? resumeSession() : pauseSession());
+
+  useSessionShortcuts(phase !== SessionPhase.IDLE, {
+    onEndHold: advance,
+    onStop: stopSession,
+    onTogglePause: togglePause,
+  });
+
+  // -- Views --
+
+  const circleText = (() => {
+    if (paused) return t.circle.paused;
+    switch(phase) {
+      case SessionPhase.IDLE: return t.circle.ready;
+      case SessionPhase.PREPARE:
+        // Settle-in breaths, then the countdown in whole seconds
+        if (breathStage === 'holdOut') return String(Math.ceil(timedRemaining));
+        return breathStage === 'inhale' ? t.circle.inhale : t.circle.exhale;
+      case SessionPhase.BREATHING:
+        if (breathStage === 'inhale') return t.circle.inhale;
+        if (breathStage === 'exhale') return t.circle.exhale;
+        return t.circle.hold;
+      case SessionPhase.RETENTION: return t.circle.hold;
+      case SessionPhase.RECOVERY: return t.circle.recover;
+      case SessionPhase.REST: return t.circle.rest;
+      default: return "";
+    }
+  })();
+
+  const circleSubText = (() => {
+    switch(phase) {
+      case SessionPhase.IDLE: return protocol.name;
+      case SessionPhase.PREPARE: return breathStage === 'holdOut' ? t.app.getReady : t.app.settleIn(breathCount, breathTarget);
+      case SessionPhase.BREATHING: return `${breathCount}/${breathTarget}`;
+      case SessionPhase.RETENTION: return formatClock(elapsed);
+      case SessionPhase.RECOVERY:
+      case SessionPhase.REST: return t.common.seconds(Math.ceil(timedRemaining));
+      default: return "";
+    }
+  })();
+
+  // Headset buttons send play/pause as a toggle, so during a hold any press means "I need to breathe"
+  useMediaSession(isRunning, protocol.name, t.app.mediaStatus(round, totalRounds, circleText), paused, {
+    play: () => (paused ? resumeSession() : endRetention()),
+    pause: () => (phase === SessionPhase.RETENTION ? endRetention() : pauseSession()),
+    stop: stopSession,
+    next: advance,
+  });
+
   // -- Main Render --
 
   const renderControls = () => {
      if (phase === SessionPhase.IDLE) {
          return (
             <button 
-                onClick={startSessionWrapper}
-                className="group relative inline-flex items-center justify-center w-20 h-20 rounded-full bg-cyan-500 shadow-[0_0_40px_rgba(6,182,212,0.4)] hover:scale-105 transition-all duration-300"
+                onClick={startSession}
+                aria-label={t.app.aria.start}
+                className="group relative inline-flex items-center justify-center w-20 h-20 rounded-full bg-cyan-500 shadow-[0_0_40px_rgb(var(--cyan-500)/0.4)] hover:scale-105 transition-all duration-300"
             >
                 <Play className="w-8 h-8 text-slate-900 ml-1" fill="currentColor" />
             </button>
          );
      }
 
+     const stopButton = (
+        <button 
+            onClick={stopSession}
+            aria-label={t.app.aria.stop}
+            className="p-4 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+        >
+            <Square className="w-6 h-6" fill="currentColor" />
+        </button>
+     );
+
+     if (paused) {
+         return (
+            <div className="flex items-center gap-6">
+                <button 
+                    onClick={resumeSession}
+                    aria-label={t.app.aria.resume}
+                    className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-cyan-500 shadow-[0_0_40px_rgb(var(--cyan-500)/0.4)] hover:scale-105 transition-all duration-300"
+                >
+                    <Play className="w-8 h-8 text-slate-900 ml-1" fill="currentColor" />
+                </button>
+                {stopButton}
+            </div>
+         );
+     }
+
+     const pauseButton = (
+        <button 
+            onClick={pauseSession}
+            aria-label={t.app.aria.pause}
+            className="p-4 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+        >
+            <Pause className="w-6 h-6" fill="currentColor" />
+        </button>
+     );
+
      if (phase === SessionPhase.RETENTION) {
          return (
-            <button 
-                onClick={endRetention}
-                className="w-full max-w-xs py-4 bg-emerald-500 hover:bg-emerald-400 text-slate-900 font-bold text-lg rounded-2xl shadow-lg shadow-emerald-500/20 transition-all animate-bounce-slow"
-            >
-                I NEED TO BREATHE
-            </button>
+            <div className="w-full flex flex-col items-center gap-6">
+                <button 
+                    onClick={endRetention}
+                    aria-keyshortcuts="Space Enter"
+                    className="w-full max-w-xs py-4 bg-emerald-500 hover:bg-emerald-400 text-slate-900 font-bold text-lg rounded-2xl shadow-lg shadow-emerald-500/20 transition-all animate-bounce-slow motion-reduce:animate-none"
+                >
+                    {t.app.needToBreathe}
+                </button>
+                {pauseButton}
+            </div>
          );
      }
 
      if (phase !== SessionPhase.COMPLETED) {
          return (
-            <button 
-                onClick={stopSession}
-                className="p-4 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
-            >
-                <Square className="w-6 h-6" fill="currentColor" />
-            </button>
+            <div className="flex items-center gap-6">
+                {pauseButton}
+                {stopButton}
+            </div>
          );
      }
 
      return null;
   };
 
-  const renderStats = () => (
+  const renderStats = () => {
+    const personalBests = newPersonalBests(sessionStats, previousBests);
+
+    return (
     <div className="w-full max-w-md px-6 animate-fade-in mt-10">
        <div className="text-center mb-10">
            <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-cyan-500/10 mb-4">
                <Check className="w-10 h-10 text-cyan-400" />
            </div>
-           <h2 className="text-3xl font-bold text-white mb-2">Session Complete</h2>
-           <p className="text-slate-400">You've boosted your immune system.</p>
+           <h2 className="text-3xl font-bold text-white mb-2">{t.app.sessionComplete}</h2>
+           <p className="text-slate-400">{t.app.completeSubtitle}</p>
        </div>
 
        <div className="space-y-3">
-         {sessionStats.map((stat, idx) => (
-            <div key={idx} className="flex justify-between items-center bg-slate-800/50 p-4 rounded-2xl border border-slate-700">
-                <span className="text-slate-400 font-medium">Round {stat.round}</span>
-                <span className="text-xl font-mono text-white">{formatTime(stat.retentionTime)}</span>
-            </div>
-         ))}
+         {sessionStats.map((stat, idx) => {
+            const isBest = personalBests.has(stat.round);
+            const holdHeartRate = summarizeHeartRate(
+                heartRecorder.samples(),
+                sample => sample.round === stat.round && sample.phase === SessionPhase.RETENTION
+            );
+            return (
+                <div key={idx} className={`flex justify-between items-center p-4 rounded-2xl border ${
+                    isBest ? 'bg-amber-400/10 border-amber-400/40' : 'bg-slate-800/50 border-slate-700'
+                }`}>
+                    <div className="flex flex-col">
+                        <span className="text-slate-400 font-medium">{t.common.round(stat.round)}</span>
+                        {holdHeartRate && (
+                            <span className="text-xs font-mono text-rose-400/80">{t.heartRate.range(holdHeartRate.min, holdHeartRate.max)}</span>
+                        )}
+                        {stat.breathsPerMinute !== undefined && (
+                            <span className="text-xs font-mono text-cyan-400/80">{t.app.breathRate(stat.breathsPerMinute)}</span>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {stat.alarms && (
+                            <span className="flex items-center gap-1 text-[10px] uppercase font-bold tracking-wider text-rose-400">
+                                <AlertTriangle className="w-4 h-4" /> {t.safety.maxHoldReached}
+                            </span>
+                        )}
+                        {isBest && (
+                            <span className="flex items-center gap-1 text-[10px] uppercase font-bold tracking-wider text-amber-400">
+                                <Trophy className="w-4 h-4" /> {t.app.newBest}
+                            </span>
+                        )}
+                        <span className="text-xl font-mono text-white">{formatClock(stat.retentionTime)}</span>
+                    </div>
+                </div>
+            );
+         })}
        </div>
        <button 
         onClick={stopSession}
         className="mt-12 w-full py-4 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold rounded-2xl shadow-lg shadow-cyan-500/20 transition-all"
        >
-        Done
+        {t.app.done}
        </button>
     </div>
-  );
+    );
+  };
 
   return (
     <div className="min-h-screen h-screen flex flex-col items-center justify-between bg-slate-900 text-white overflow-hidden relative pt-safe pb-safe selection:bg-cyan-500/30">
@@ -392,17 +513,48 @@ const App: React.FC = () => {
         <div className="flex items-center gap-2">
             <Wind className="w-6 h-6 text-cyan-400" />
             <span className="font-bold text-xl tracking-wide font-display">GLACIAL</span>
+            {profiles.length > 1 && (
+                <span className="ml-1 px-2 py-0.5 rounded-full bg-slate-800 text-[10px] uppercase font-bold tracking-wider text-slate-400">{profile.name}</span>
+            )}
         </div>
         <div className="flex items-center gap-4">
-            {phase !== SessionPhase.IDLE && phase !== SessionPhase.COMPLETED && (
+            {isRunning && (
                 <div className="flex flex-col items-end">
-                    <span className="text-[10px] text-slate-400 uppercase font-bold tracking-wider">Round</span>
-                    <span className="font-mono font-bold text-lg leading-none">{round}/{settings.totalRounds}</span>
+                    <span className="text-[10px] text-slate-400 uppercase font-bold tracking-wider">{t.app.round}</span>
+                    <span className="font-mono font-bold text-lg leading-none">{round}/{totalRounds}</span>
                 </div>
             )}
+            {phase === SessionPhase.IDLE && (
+                <button 
+                    onClick={() => setShowExport(true)}
+                    aria-label={t.app.aria.exportAudio}
+                    className="p-2 rounded-full hover:bg-slate-800 transition-colors text-slate-400 hover:text-white"
+                >
+                    <Download className="w-6 h-6" />
+                </button>
+            )}
+            {phase === SessionPhase.IDLE && (
+                <button 
+                    onClick={() => setShowProgress(true)}
+                    aria-label={t.app.aria.progress}
+                    className="p-2 rounded-full hover:bg-slate-800 transition-colors text-slate-400 hover:text-white"
+                >
+                    <BarChart3 className="w-6 h-6" />
+                </button>
+            )}
+            {phase === SessionPhase.IDLE && (
+                <button 
+                    onClick={() => setShowHistory(true)}
+                    aria-label={t.app.aria.history}
+                    className="p-2 rounded-full hover:bg-slate-800 transition-colors text-slate-400 hover:text-white"
+                >
+                    <History className="w-6 h-6" />
+                </button>
+            )}
             {phase === SessionPhase.IDLE && (
                 <button 
                     onClick={() => setShowSettings(true)}
+                    aria-label={t.app.aria.settings}
                     className="p-2 rounded-full hover:bg-slate-800 transition-colors text-slate-400 hover:text-white"
                 >
                     <Settings className="w-6 h-6" />
@@ -412,32 +564,26 @@ const App: React.FC = () => {
       </div>
 
       {/* Main Content Area */}
-      <div className="flex-1 w-full flex flex-col items-center justify-center relative z-20">
+      <div
+        className="flex-1 w-full flex flex-col items-center justify-center relative z-20"
+        onClick={phase === SessionPhase.PREPARE && !paused ? skipPrepare : undefined}
+      >
+        {heartRate.status === 'connected' && phase !== SessionPhase.COMPLETED && <HeartRateBadge reading={heartRate.reading} />}
         {phase === SessionPhase.COMPLETED ? (
             renderStats()
         ) : (
             <BreathingCircle 
                 phase={phase}
-                progress={phase === SessionPhase.RECOVERY ? elapsedTime / 15 : 0}
-                text={(() => {
-                    switch(phase) {
-                      case SessionPhase.IDLE: return "READY";
-                      case SessionPhase.BREATHING: return isInhale ? "INHALE" : "EXHALE";
-                      case SessionPhase.RETENTION: return "HOLD";
-                      case SessionPhase.RECOVERY: return "RECOVER";
-                      default: return "";
-                    }
-                })()}
-                subText={(() => {
-                    switch(phase) {
-                      case SessionPhase.IDLE: return "Tap start";
-                      case SessionPhase.BREATHING: return `${breathCount}/${settings.breathsPerRound}`;
-                      case SessionPhase.RETENTION: return formatTime(elapsedTime);
-                      case SessionPhase.RECOVERY: return `${Math.ceil(elapsedTime)}s`;
-                      default: return "";
-                    }
-                })()}
-                isInhale={isInhale}
+                text={circleText}
+                subText={circleSubText}
+                breathStage={breathStage}
+                stageStartedAt={stageStartedAt}
+                stageDurationMs={stageDurationMs}
+                elapsed={elapsed}
+                phaseDurationMs={phaseDurationMs}
+                retentionTarget={previousBests[round]}
+                paused={paused}
+                now={audioClock.now}
             />
         )}
       </div>
@@ -450,28 +596,163 @@ const App: React.FC = () => {
              <div className="mt-12 flex gap-8 text-slate-500 text-sm">
                 <div className="flex flex-col items-center gap-2">
                     <div className="p-3 rounded-2xl bg-slate-800/50"><Timer className="w-5 h-5 text-slate-400" /></div>
-                    <span className="text-xs font-medium">~{Math.ceil(settings.totalRounds * 3.5)}m</span>
+                    <span className="text-xs font-medium">{t.common.approxMinutes(Math.ceil(estimatePlanMs(planProtocol(protocol, settings)) / 60000))}</span>
                 </div>
                 <div className="flex flex-col items-center gap-2">
                     <div className="p-3 rounded-2xl bg-slate-800/50"><HeartPulse className="w-5 h-5 text-slate-400" /></div>
-                    <span className="text-xs font-medium">Alkalize</span>
+                    <span className="text-xs font-medium">{t.app.alkalize}</span>
                 </div>
                 <div className="flex flex-col items-center gap-2">
                     <div className="p-3 rounded-2xl bg-slate-800/50"><Wind className="w-5 h-5 text-slate-400" /></div>
-                    <span className="text-xs font-medium">Focus</span>
+                    <span className="text-xs font-medium">{t.app.focus}</span>
                 </div>
              </div>
          )}
          
-         {phase === SessionPhase.BREATHING && (
-             <p className="mt-8 text-cyan-500/50 text-xs font-bold uppercase tracking-[0.2em] animate-pulse">
-                Follow the sound
+         {phase === SessionPhase.PREPARE && !paused && (
+             <button
+                onClick={skipPrepare}
+                aria-keyshortcuts="Space Enter"
+                className="mt-8 text-cyan-500/60 hover:text-cyan-400 text-xs font-bold uppercase tracking-[0.2em] transition-colors"
+             >
+                {t.app.tapToSkip}
+             </button>
+         )}
+
+         {phase === SessionPhase.BREATHING && !paused && (
+             <p className="mt-8 text-cyan-500/50 text-xs font-bold uppercase tracking-[0.2em] animate-pulse motion-reduce:animate-none">
+                {followingBreath ? t.app.breatheAtOwnPace : t.app.followTheSound}
              </p>
          )}
       </div>
 
+      {/* Screen Reader Announcements */}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+      {/* Update Toast (held back while a session runs) */}
+      {applyUpdate && phase === SessionPhase.IDLE && (
+        <div className="absolute top-20 inset-x-6 z-40 flex items-center justify-between gap-4 px-4 py-3 rounded-2xl bg-slate-800 border border-slate-700 shadow-2xl animate-fade-in">
+            <span className="text-sm text-slate-300">{t.app.updateAvailable}</span>
+            <button
+                onClick={applyUpdate}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl bg-cyan-500 hover:bg-cyan-400 text-slate-900 text-sm font-bold transition-colors"
+            >
+                <RefreshCw className="w-4 h-4" /> {t.app.reload}
+            </button>
+        </div>
+      )}
+
       {/* Settings Sheet Overlay */}
-      <SettingsSheet />
+      {showSettings && (
+        <SettingsSheet
+            profile={profile}
+            profiles={profiles}
+            onSwitchProfile={switchProfile}
+            onAddProfile={addProfile}
+            onRemoveProfile={removeProfile}
+            onSavePreset={savePreset}
+            onApplyPreset={applyPreset}
+            onDeletePreset={deletePreset}
+            settings={settings}
+            onChange={setSettings}
+            voice={voiceSettings}
+            onVoiceChange={setVoiceSettings}
+            haptics={haptics}
+            onHapticsChange={setHaptics}
+            mixer={mixer}
+            onMixerChange={setMixer}
+            preferences={preferences}
+            onPreferencesChange={setPreferences}
+            theme={theme}
+            onThemeChange={setTheme}
+            heartRateStatus={heartRate.status}
+            heartRateDevice={heartRate.deviceName}
+            onHeartRateConnect={heartRate.connect}
+            onHeartRateDisconnect={heartRate.disconnect}
+            customProtocols={customProtocols}
+            onSaveProtocol={saveProtocol}
+            onDeleteProtocol={deleteProtocol}
+            onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* History Sheet Overlay */}
+      {showHistory && (
+        <HistorySheet
+            sessions={sessions}
+            onDelete={removeSession}
+            onImport={importSessions}
+            onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Export Sheet Overlay */}
+      {showExport && (
+        <ExportSheet
+            plan={planProtocol(protocol, settings)}
+            protocolName={protocol.name}
+            mixer={mixer}
+            bestHolds={bestHoldsByRound(sessions)}
+            onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Interrupted Session Overlay */}
+      {interrupted && (
+        <ResumeSheet
+            checkpoint={interrupted}
+            onResume={() => confirmThenStart(resumeInterrupted)}
+            onSave={saveInterrupted}
+            onDiscard={discardInterrupted}
+        />
+      )}
+
+      {/* Max-Hold Alarm: covers everything so the way out is one big button */}
+      {alarmLevel === 'alarm' && (
+        <div
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="alarm-title"
+            className="absolute inset-0 z-50 bg-rose-950/90 backdrop-blur-sm flex flex-col items-center justify-center gap-6 px-6 text-center animate-fade-in"
+        >
+            <AlertTriangle className="w-16 h-16 text-rose-400 animate-pulse motion-reduce:animate-none" />
+            <h2 id="alarm-title" className="text-3xl font-bold text-white">{t.safety.alarmTitle}</h2>
+            <p className="text-slate-300">{t.safety.alarmBody(formatClock(holdSeconds))}</p>
+            <button
+                onClick={endRetention}
+                autoFocus
+                className="w-full max-w-xs py-5 bg-emerald-500 hover:bg-emerald-400 text-slate-900 font-bold text-xl rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+            >
+                {t.safety.imOk}
+            </button>
+        </div>
+      )}
+
+      {/* Progress Sheet Overlay */}
+      {showProgress && (
+        <ProgressSheet
+            sessions={sessions}
+            onClose={() => setShowProgress(false)}
+        />
+      )}
+
+      {/* Safety Overlays: the first-run acknowledgement, then the check before each session */}
+      {!safetyAcknowledged && (
+        <SafetySheet
+            mode="acknowledge"
+            onConfirm={() => {
+              acknowledgeSafety();
+              setSafetyAcknowledged(true);
+            }}
+        />
+      )}
+      {safetyAcknowledged && pendingStart && (
+        <SafetySheet
+            mode="environment"
+            onConfirm={confirmPendingStart}
+            onCancel={() => setPendingStart(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,68 +1,158 @@
-import React from 'react';
+import React, { useLayoutEffect, useRef } from 'react';
 import { SessionPhase } from '../types';
+import { BreathStage } from '../services/sessionEngine';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useAnimationFrame } from '../hooks/useAnimationFrame';
+import { breathFullness } from '../utils/breath';
+import { themeColor } from '../services/theme';
 
 interface BreathingCircleProps {
   phase: SessionPhase;
-  progress: number; // 0 to 1
   text: string;
   subText: string;
-  isInhale: boolean; // Used during BREATHING phase
+  breathStage: BreathStage;
+  stageStartedAt: number; // on the `now` clock
+  stageDurationMs: number;
+  elapsed: number; // seconds into the phase
+  phaseDurationMs: number; // 0 when open-ended
+  retentionTarget?: number; // seconds, personal best for this round
+  paused?: boolean;
+  now: () => number; // the session clock, so the orb follows the audio rather than the page
 }
 
-export const BreathingCircle: React.FC<BreathingCircleProps> = ({ 
-  phase, 
-  progress, 
-  text, 
+// Orb scale when the lungs are empty and full; phases not listed hold still
+const PHASE_SCALE: Partial<Record<SessionPhase, [number, number]>> = {
+  [SessionPhase.PREPARE]: [0.8, 1.25],
+  [SessionPhase.BREATHING]: [0.8, 1.5],
+  [SessionPhase.RETENTION]: [0.9, 0.9],
+  [SessionPhase.RECOVERY]: [0.9, 1.25],
+  [SessionPhase.REST]: [0.9, 1.25],
+};
+
+// Without a best to race, the retention ring makes one lap a minute
+const RETENTION_LAP_S = 60;
+
+const RING_RADIUS = 140;
+
+const Ring: React.FC<{ fraction: number; color: string }> = ({ fraction, color }) => (
+  <svg aria-hidden="true" viewBox="0 0 288 288" className="absolute w-72 h-72 -rotate-90 z-0">
+    <circle cx="144" cy="144" r={RING_RADIUS} fill="none" strokeWidth="2" style={{ stroke: color }} className="opacity-10" />
+    <circle
+      cx="144" cy="144" r={RING_RADIUS}
+      fill="none"
+      strokeWidth="2"
+      strokeLinecap="round"
+      pathLength={1}
+      strokeDasharray="1"
+      strokeDashoffset={1 - Math.min(1, Math.max(0, fraction))}
+      style={{ stroke: color }}
+      className="opacity-40 transition-[stroke-dashoffset] duration-100 ease-linear"
+    />
+  </svg>
+);
+
+export const BreathingCircle: React.FC<BreathingCircleProps> = ({
+  phase,
+  text,
   subText,
-  isInhale
+  breathStage,
+  stageStartedAt,
+  stageDurationMs,
+  elapsed,
+  phaseDurationMs,
+  retentionTarget,
+  paused = false,
+  now,
 }) => {
-  
+  const reducedMotion = useReducedMotion();
+  const orbRef = useRef<HTMLDivElement>(null);
+
+  // Written straight to the DOM each frame so React doesn't re-render 60 times a second
+  const drawOrb = () => {
+    const orb = orbRef.current;
+    if (!orb) return;
+    const [empty, full] = PHASE_SCALE[phase] ?? [1, 1];
+    const fullness = breathFullness(breathStage, stageStartedAt, stageDurationMs, now());
+    // Reduced motion: the orb stays put and brightens/dims instead of growing and shrinking
+    if (reducedMotion) {
+      orb.style.transform = 'translate(-50%, -50%)';
+      orb.style.opacity = empty === full ? '1' : String(0.45 + 0.55 * fullness);
+    } else {
+      orb.style.transform = `translate(-50%, -50%) scale(${empty + (full - empty) * fullness})`;
+      orb.style.opacity = '';
+    }
+  };
+
+  const moving = !paused && PHASE_SCALE[phase] !== undefined;
+  useAnimationFrame(moving, drawOrb);
+  // One draw per change covers still phases and freezes the orb in place on pause
+  useLayoutEffect(drawOrb);
+
   // Dynamic styles based on phase
   const getCircleStyle = () => {
-    const base = "absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full transition-all duration-[50ms] will-change-transform flex items-center justify-center backdrop-blur-md";
-    
+    const base = "absolute top-1/2 left-1/2 rounded-full transition-colors duration-700 will-change-transform flex items-center justify-center backdrop-blur-md";
+
     switch (phase) {
       case SessionPhase.IDLE:
-        return `${base} w-48 h-48 bg-cyan-500/10 border border-cyan-500/30 shadow-[0_0_40px_rgba(6,182,212,0.1)]`;
-      
+        return `${base} w-48 h-48 bg-cyan-500/10 border border-cyan-500/30 shadow-[0_0_40px_rgb(var(--cyan-500)/0.1)]`;
+
+      case SessionPhase.PREPARE:
+        return `${base} w-48 h-48 bg-cyan-500/10 border border-cyan-400/40 shadow-[0_0_40px_rgb(var(--cyan-400)/0.2)]`;
+
       case SessionPhase.BREATHING:
-        // Smooth expansion/contraction
-        const scale = isInhale ? 1.5 : 0.8;
-        // We use a duration that matches half the breath cycle roughly for smoothness, handled by parent state mostly, but transition here helps
-        const transitionDuration = isInhale ? 'duration-[1600ms]' : 'duration-[1600ms]';
-        return `${base} w-48 h-48 bg-cyan-400/20 border-2 border-cyan-400/50 shadow-[0_0_60px_rgba(34,211,238,0.3)] scale-[${scale}] transition-transform ${transitionDuration} ease-in-out`;
-      
+        return `${base} w-48 h-48 bg-cyan-400/20 border-2 border-cyan-400/50 shadow-[0_0_60px_rgb(var(--cyan-400)/0.3)]`;
+
       case SessionPhase.RETENTION:
-        return `${base} w-48 h-48 bg-rose-500/10 border border-rose-500/30 shadow-[0_0_30px_rgba(244,63,94,0.1)] scale-90 animate-pulse`;
-      
+        return `${base} w-48 h-48 bg-rose-500/10 border border-rose-500/30 shadow-[0_0_30px_rgb(var(--rose-500)/0.1)] ${paused || reducedMotion ? '' : 'animate-pulse'}`;
+
       case SessionPhase.RECOVERY:
-        return `${base} w-48 h-48 bg-emerald-500/20 border-2 border-emerald-500/50 shadow-[0_0_50px_rgba(16,185,129,0.3)] scale-125`;
-      
+        return `${base} w-48 h-48 bg-emerald-500/20 border-2 border-emerald-500/50 shadow-[0_0_50px_rgb(var(--emerald-500)/0.3)]`;
+
+      case SessionPhase.REST:
+        return `${base} w-48 h-48 bg-indigo-500/10 border border-indigo-400/30 shadow-[0_0_30px_rgb(var(--indigo-400)/0.1)]`;
+
       default:
         return `${base} w-48 h-48 bg-slate-800`;
     }
   };
 
+  const renderRing = () => {
+    switch (phase) {
+      case SessionPhase.PREPARE:
+        // Only the closing countdown has a ring; it is the 'holdOut' tail of the phase
+        if (breathStage !== 'holdOut' || stageDurationMs <= 0) return null;
+        return <Ring fraction={(phaseDurationMs - elapsed * 1000) / stageDurationMs} color={themeColor('cyan', 400)} />;
+      case SessionPhase.RETENTION:
+        // Fills up to the personal best, then stays full in amber
+        if (!retentionTarget) return <Ring fraction={(elapsed % RETENTION_LAP_S) / RETENTION_LAP_S} color={themeColor('rose', 500)} />;
+        return <Ring fraction={elapsed / retentionTarget} color={elapsed > retentionTarget ? themeColor('amber', 400) : themeColor('rose', 500)} />;
+      case SessionPhase.RECOVERY:
+      case SessionPhase.REST:
+        // Counts down what is left of the configured hold
+        if (phaseDurationMs <= 0) return null;
+        return (
+          <Ring
+            fraction={1 - (elapsed * 1000) / phaseDurationMs}
+            color={phase === SessionPhase.REST ? themeColor('indigo', 400) : themeColor('emerald', 500)}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className="relative w-full h-96 flex items-center justify-center overflow-hidden">
       {/* Outer Glow Ring */}
-      <div className={`absolute w-64 h-64 rounded-full opacity-20 blur-3xl transition-colors duration-1000
-        ${phase === SessionPhase.RETENTION ? 'bg-rose-600' : 
-          phase === SessionPhase.RECOVERY ? 'bg-emerald-600' : 'bg-cyan-600'}`} 
+      <div aria-hidden="true" className={`absolute w-64 h-64 rounded-full opacity-20 blur-3xl transition-colors duration-1000
+        ${phase === SessionPhase.RETENTION ? 'bg-rose-600' :
+          phase === SessionPhase.RECOVERY ? 'bg-emerald-600' :
+          phase === SessionPhase.REST ? 'bg-indigo-600' : 'bg-cyan-600'}`}
       />
 
-      {/* The Breathing Orb */}
-      <div className={getCircleStyle()}>
-        {/* Inner Content - Keeps text readable regardless of scale */}
-        <div className="absolute inset-0 flex flex-col items-center justify-center z-10 transform scale-100"> 
-           {/* Note: In a real CSS scale transform, child scales too. 
-               To prevent text scaling, we usually apply counter-scale or put text outside. 
-               For this effect, scaling the whole orb feels more organic like a lung.
-               We will let the text scale slightly or handle it via separate layering if it gets unreadable.
-           */}
-        </div>
-      </div>
-      
+      {/* The Breathing Orb (scale is set per frame in drawOrb) */}
+      <div ref={orbRef} aria-hidden="true" className={getCircleStyle()} />
+
       {/* Text Overlay (Positioned absolutely so it doesn't scale with the orb) */}
       <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center z-20 pointer-events-none">
          <h1 className="text-4xl font-bold text-white drop-shadow-md tracking-wider font-mono">
@@ -72,21 +162,9 @@ export const BreathingCircle: React.FC<BreathingCircleProps> = ({
             {subText}
          </p>
       </div>
-      
-      {/* Progress Ring for Recovery/Retention optional viz */}
-      {phase === SessionPhase.RECOVERY && (
-        <svg className="absolute w-72 h-72 -rotate-90 z-0">
-          <circle
-            cx="144" cy="144" r="140"
-            fill="none"
-            stroke="#10b981"
-            strokeWidth="2"
-            strokeDasharray="879"
-            strokeDashoffset={879 * (1 - progress)}
-            className="opacity-30 transition-all duration-1000 linear"
-          />
-        </svg>
-      )}
+
+      {/* Progress Ring: lead-in countdown, retention vs best, recovery/rest countdown */}
+      {renderRing()}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { MixerSettings } from '../types';
+import { SessionPlan } from '../services/sessionEngine';
+import { DEFAULT_RETENTION_TARGET_SECONDS, renderSessionWav } from '../services/exporter';
+import { formatClock } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { downloadBlob } from '../utils/download';
+
+interface ExportSheetProps {
+  plan: SessionPlan;
+  protocolName: string;
+  mixer: MixerSettings;
+  bestHolds: Record<number, number>; // used to suggest targets
+  onClose: () => void;
+}
+
+export const ExportSheet: React.FC<ExportSheetProps> = ({ plan, protocolName, mixer, bestHolds, onClose }) => {
+  const { t } = useI18n();
+  const holdRounds = plan
+    .map((steps, index) => (steps.some(step => step.type === 'openHold') ? index + 1 : 0))
+    .filter(round => round > 0);
+
+  const [targets, setTargets] = useState<number[]>(() =>
+    plan.map((_, index) => Math.round(bestHolds[index + 1] ?? DEFAULT_RETENTION_TARGET_SECONDS))
+  );
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      const wav = await renderSessionWav(plan, targets, mixer, setProgress);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(wav, `glacial-breath-${protocolName.toLowerCase().replace(/\s+/g, '-')}-${date}.wav`);
+    } catch (err) {
+      console.warn('Audio export failed', err);
+      setError(t.exporter.failed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const rendering = progress !== null;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={rendering ? undefined : onClose}>
+      <div className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-white">{t.exporter.title}</h3>
+          <button onClick={onClose} disabled={rendering} aria-label={t.common.close} className="p-2 bg-slate-700 rounded-full text-slate-300 disabled:opacity-40">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-6">
+          {t.exporter.description(protocolName)}
+          {holdRounds.length > 0 && t.exporter.holdTargets}
+        </p>
+
+        {holdRounds.length > 0 && (
+          <div className="space-y-3 mb-8 overflow-y-auto no-scrollbar">
+            {holdRounds.map(round => (
+              <div key={round} className="flex justify-between items-center">
+                <span className="text-slate-400 font-medium">{t.exporter.roundHold(round)}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-mono text-slate-500">{formatClock(targets[round - 1])}</span>
+                  <input
+                    type="number" min="5" max="600" step="5"
+                    value={targets[round - 1]}
+                    disabled={rendering}
+                    onChange={e => {
+                      const value = Math.max(5, parseInt(e.target.value) || 0);
+                      setTargets(prev => prev.map((target, i) => (i === round - 1 ? value : target)));
+                    }}
+                    className="w-20 bg-slate-900 rounded-lg px-2 py-2 text-sm font-mono text-white text-center outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rendering ? (
+          <div>
+            <div className="flex justify-between text-sm mb-3 text-slate-400">
+              <span>{t.exporter.rendering}</span>
+              <span className="text-cyan-400 font-mono font-bold">{Math.round(progress * 100)}%</span>
+            </div>
+            <div className="w-full h-2 bg-slate-700 rounded-lg overflow-hidden">
+              <div className="h-full bg-cyan-500 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            className="w-full py-4 flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold rounded-2xl shadow-lg shadow-cyan-500/20 transition-all"
+          >
+            <Download className="w-5 h-5" /> {t.exporter.render}
+          </button>
+        )}
+
+        {error && <p className="mt-4 text-sm text-rose-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
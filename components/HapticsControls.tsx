@@ -0,0 +1,93 @@
+import React from 'react';
+import { HapticPatternId, HapticSettings } from '../types';
+import { isHapticsSupported } from '../services/haptics';
+import { useI18n } from '../hooks/useI18n';
+
+interface HapticsControlsProps {
+  haptics: HapticSettings;
+  onChange: (haptics: HapticSettings) => void;
+}
+
+type Cue = 'inhale' | 'exhale' | 'retention' | 'recovery';
+
+// Patterns that make sense for each cue
+const CUE_OPTIONS: Record<Cue, HapticPatternId[]> = {
+  inhale: ['off', 'tap', 'rising'],
+  exhale: ['off', 'tap', 'fading'],
+  retention: ['off', 'tap', 'heartbeat'],
+  recovery: ['off', 'tap', 'countdown'],
+};
+
+const optionClass = (selected: boolean) =>
+  `py-2 rounded-xl text-xs font-bold transition-all ${
+    selected
+      ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+      : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+  }`;
+
+export const HapticsControls: React.FC<HapticsControlsProps> = ({ haptics, onChange }) => {
+  const { t } = useI18n();
+  const set = (patch: Partial<HapticSettings>) => onChange({ ...haptics, ...patch });
+  const enabled = haptics.intensity > 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.haptics.title}</span>
+        {!isHapticsSupported() && <span className="text-xs text-slate-600">{t.settings.notSupported}</span>}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between text-xs mb-2 text-slate-500">
+            <span>{t.haptics.intensity}</span>
+            <span className="font-mono">{enabled ? `${Math.round(haptics.intensity * 100)}%` : t.haptics.off}</span>
+          </div>
+          <input
+            type="range" min="0" max="1" step="0.1"
+            value={haptics.intensity}
+            onChange={e => set({ intensity: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+        </div>
+
+        {enabled && (Object.keys(CUE_OPTIONS) as Cue[]).map(cue => (
+          <div key={cue}>
+            <div className="text-xs mb-2 text-slate-500">{t.haptics.cues[cue]}</div>
+            <div className="grid grid-cols-3 gap-2">
+              {CUE_OPTIONS[cue].map(pattern => (
+                <button key={pattern} onClick={() => set({ [cue]: pattern })} className={optionClass(haptics[cue] === pattern)}>
+                  {t.haptics.patterns[pattern]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {enabled && haptics.retention !== 'off' && (
+          <div className="flex justify-between items-center text-xs text-slate-500">
+            <span>{t.haptics.pulseEvery}</span>
+            <div className="flex gap-2">
+              {[5, 10, 30].map(n => (
+                <button key={n} onClick={() => set({ heartbeatSeconds: n })} className={`w-14 ${optionClass(haptics.heartbeatSeconds === n)}`}>
+                  {t.common.seconds(n)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={() => set({ silent: !haptics.silent })}
+          className={`w-full py-3 rounded-xl text-sm font-bold transition-all ${
+            haptics.silent
+              ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+              : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+          }`}
+        >
+          {t.haptics.silent(haptics.silent)}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { HeartRateMeasurement } from '../services/heartRate';
+import { useI18n } from '../hooks/useI18n';
+
+interface HeartRateBadgeProps {
+  reading: HeartRateMeasurement | null;
+}
+
+// Live BPM beside the orb; dims when the strap loses skin contact
+export const HeartRateBadge: React.FC<HeartRateBadgeProps> = ({ reading }) => {
+  const { t } = useI18n();
+  const lost = !reading || reading.contact === 'lost' || reading.bpm <= 0;
+
+  return (
+    <div
+      className={`absolute top-4 right-6 z-30 flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-800/70 border border-slate-700 transition-opacity ${
+        lost ? 'opacity-50' : ''
+      }`}
+      aria-label={lost ? t.heartRate.noContact : t.heartRate.bpmLabel(reading.bpm)}
+    >
+      <Heart className={`w-4 h-4 text-rose-400 ${lost ? '' : 'animate-pulse motion-reduce:animate-none'}`} fill="currentColor" />
+      <span className="font-mono font-bold text-white">{lost ? '--' : reading.bpm}</span>
+      <span className="text-[10px] uppercase font-bold tracking-wider text-slate-400">{t.heartRate.bpm}</span>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Bluetooth, HeartPulse } from 'lucide-react';
+import { HeartRateTransport, createBluetoothTransport, createSimulatedTransport, isBluetoothSupported } from '../services/heartRate';
+import { HeartRateStatus } from '../hooks/useHeartRate';
+import { useI18n } from '../hooks/useI18n';
+
+interface HeartRateControlsProps {
+  status: HeartRateStatus;
+  deviceName: string;
+  onConnect: (transport: HeartRateTransport) => void;
+  onDisconnect: () => void;
+}
+
+const buttonClass = 'flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-bold transition-all';
+
+export const HeartRateControls: React.FC<HeartRateControlsProps> = ({ status, deviceName, onConnect, onDisconnect }) => {
+  const { t } = useI18n();
+  const supported = isBluetoothSupported();
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.heartRate.title}</span>
+        {!supported && <span className="text-xs text-slate-600">{t.settings.notSupported}</span>}
+      </div>
+
+      {status === 'connected' ? (
+        <div className="flex justify-between items-center px-4 py-3 rounded-xl bg-cyan-500/20 border border-cyan-500/40">
+          <span className="flex items-center gap-2 text-sm font-bold text-cyan-400">
+            <HeartPulse className="w-4 h-4" /> {deviceName || t.heartRate.unnamed}
+          </span>
+          <button onClick={onDisconnect} className="text-xs font-bold text-slate-400 hover:text-white">
+            {t.heartRate.disconnect}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <button
+            onClick={() => onConnect(createBluetoothTransport())}
+            disabled={!supported || status === 'connecting'}
+            className={`w-full ${buttonClass} bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 disabled:hover:bg-slate-700`}
+          >
+            <Bluetooth className="w-4 h-4" /> {status === 'connecting' ? t.heartRate.connecting : t.heartRate.connect}
+          </button>
+          {/* Replays a recorded strap, for working on this without one */}
+          {import.meta.env.DEV && (
+            <button onClick={() => onConnect(createSimulatedTransport())} className={`w-full ${buttonClass} text-slate-500 hover:text-slate-300`}>
+              {t.heartRate.simulate}
+            </button>
+          )}
+          {status === 'error' && <p className="text-xs text-rose-400">{t.heartRate.failed}</p>}
+        </div>
+      )}
+      <p className="text-xs text-slate-600 mt-2">{t.heartRate.hint}</p>
+    </div>
+  );
+};
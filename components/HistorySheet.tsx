@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { X, Trash2, Download, Upload } from 'lucide-react';
+import { SessionRecord } from '../types';
+import { exportHistoryCsv, exportHistoryJson, parseHistoryJson } from '../services/historyTransfer';
+import { formatClock, formatDate } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { downloadBlob } from '../utils/download';
+
+interface HistorySheetProps {
+  sessions: SessionRecord[];
+  onDelete: (id: string) => void;
+  onImport: (sessions: SessionRecord[]) => Promise<number>; // resolves to how many were new
+  onClose: () => void;
+}
+
+interface ImportReport {
+  message: string;
+  errors: string[];
+}
+
+const MAX_LISTED_ERRORS = 5;
+
+const toolClass = 'flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-bold bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40 transition-colors';
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+export const HistorySheet: React.FC<HistorySheetProps> = ({ sessions, onDelete, onImport, onClose }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const exportAs = (type: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    const blob = type === 'json'
+      ? new Blob([exportHistoryJson(sessions)], { type: 'application/json' })
+      : new Blob([exportHistoryCsv(sessions)], { type: 'text/csv' });
+    downloadBlob(blob, `glacial-breath-history-${date}.${type}`);
+  };
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      console.warn('Could not read the import file', err);
+      setReport({ message: t.history.readFailed, errors: [] });
+      return;
+    }
+    const { sessions: parsed, errors } = parseHistoryJson(text);
+    if (parsed.length === 0) {
+      setReport({ message: t.history.nothingImported, errors });
+      return;
+    }
+    try {
+      const added = await onImport(parsed);
+      setReport({ message: t.history.imported(added, parsed.length - added), errors });
+    } catch (err) {
+      console.warn('Could not import sessions', err);
+      setReport({ message: t.history.saveFailed, errors: [] });
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={onClose}>
+      <div className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-white">{t.history.title}</h3>
+          <button onClick={onClose} aria-label={t.common.close} className="p-2 bg-slate-700 rounded-full text-slate-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => exportAs('json')} disabled={sessions.length === 0} className={toolClass}>
+            <Download className="w-4 h-4" /> {t.history.exportJson}
+          </button>
+          <button onClick={() => exportAs('csv')} disabled={sessions.length === 0} className={toolClass}>
+            <Download className="w-4 h-4" /> {t.history.exportCsv}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={`${toolClass} ml-auto`}>
+            <Upload className="w-4 h-4" /> {t.history.import}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // allow picking the same file again
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+
+        {report && (
+          <div className={`mb-4 p-3 rounded-xl text-sm ${report.errors.length > 0 ? 'bg-amber-400/10 text-amber-300' : 'bg-cyan-500/10 text-cyan-300'}`}>
+            <p className="font-medium">{report.message}</p>
+            {report.errors.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs font-mono">
+                {report.errors.slice(0, MAX_LISTED_ERRORS).map(error => <li key={error}>{error}</li>)}
+                {report.errors.length > MAX_LISTED_ERRORS && <li>{t.history.moreErrors(report.errors.length - MAX_LISTED_ERRORS)}</li>}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-center text-slate-500 py-12">{t.history.empty}</p>
+        ) : (
+          <div className="space-y-3 overflow-y-auto no-scrollbar">
+            {sessions.map(session => (
+              <div key={session.id} className="bg-slate-900/50 p-4 rounded-2xl border border-slate-700">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="text-white font-medium">{formatDate(session.startedAt, DATE_FORMAT)}</div>
+                    <div className="text-xs text-slate-500 font-mono mt-1">
+                      {formatClock(session.durationMs / 1000)} · {session.protocolName ?? t.protocols.names['wim-hof']}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!session.completed && (
+                      <span className="text-[10px] uppercase font-bold tracking-wider text-amber-400 bg-amber-400/10 px-2 py-1 rounded-full">
+                        {t.history.stopped}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      aria-label={t.history.delete}
+                      className="p-2 rounded-full text-slate-500 hover:text-rose-400 hover:bg-slate-700 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {session.stats.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {session.stats.map(stat => (
+                      <span key={stat.round} className="text-sm font-mono text-cyan-400 bg-cyan-500/10 px-3 py-1 rounded-xl">
+                        {t.common.roundShort(stat.round)} {formatClock(stat.retentionTime)}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-xs text-slate-600">{t.history.noHolds}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { BINAURAL_BEATS, MixerSettings, ReverbPreset, SOUNDSCAPE_IDS } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface MixerControlsProps {
+  mixer: MixerSettings;
+  onChange: (mixer: MixerSettings) => void;
+}
+
+const REVERB_OPTIONS: ReverbPreset[] = ['off', 'room', 'hall', 'glacier'];
+
+const optionClass = (selected: boolean) =>
+  `py-2 rounded-xl text-xs font-bold transition-all ${
+    selected
+      ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+      : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+  }`;
+
+const LevelSlider: React.FC<{ label: string; value: number; disabled?: boolean; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  disabled,
+  onChange,
+}) => (
+  <div className={disabled ? 'opacity-40' : undefined}>
+    <div className="flex justify-between text-xs mb-2 text-slate-500">
+      <span>{label}</span>
+      <span className="font-mono">{Math.round(value * 100)}%</span>
+    </div>
+    <input
+      type="range" min="0" max="1" step="0.05"
+      value={value}
+      disabled={disabled}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+    />
+  </div>
+);
+
+export const MixerControls: React.FC<MixerControlsProps> = ({ mixer, onChange }) => {
+  const { t } = useI18n();
+  const set = (patch: Partial<MixerSettings>) => onChange({ ...mixer, ...patch });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center text-sm mb-3 text-slate-400">
+        <span>{t.mixer.sound}</span>
+        <button
+          onClick={() => set({ muted: !mixer.muted })}
+          aria-label={mixer.muted ? t.mixer.unmute : t.mixer.mute}
+          className={`p-2 rounded-full transition-colors ${mixer.muted ? 'bg-rose-500/20 text-rose-400' : 'bg-slate-700 text-slate-300'}`}
+        >
+          {mixer.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <LevelSlider label={t.mixer.master} value={mixer.masterVolume} disabled={mixer.muted} onChange={v => set({ masterVolume: v })} />
+        <LevelSlider label={t.mixer.air} value={mixer.airLevel} disabled={mixer.muted} onChange={v => set({ airLevel: v })} />
+        <LevelSlider label={t.mixer.drone} value={mixer.droneLevel} disabled={mixer.muted} onChange={v => set({ droneLevel: v })} />
+        <LevelSlider label={t.mixer.bell} value={mixer.bellLevel} disabled={mixer.muted} onChange={v => set({ bellLevel: v })} />
+
+        <div className="grid grid-cols-4 gap-2">
+          {REVERB_OPTIONS.map(reverb => (
+            <button key={reverb} onClick={() => set({ reverb })} className={optionClass(mixer.reverb === reverb)}>
+              {t.mixer.reverbPresets[reverb]}
+            </button>
+          ))}
+        </div>
+        {mixer.reverb !== 'off' && (
+          <LevelSlider label={t.mixer.reverb} value={mixer.reverbMix} disabled={mixer.muted} onChange={v => set({ reverbMix: v })} />
+        )}
+
+        <div>
+          <div className="text-xs mb-2 text-slate-500">{t.mixer.soundscape}</div>
+          <div className="grid grid-cols-3 gap-2">
+            {SOUNDSCAPE_IDS.map(soundscape => (
+              <button key={soundscape} onClick={() => set({ soundscape })} className={optionClass(mixer.soundscape === soundscape)}>
+                {t.mixer.soundscapes[soundscape]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs mb-2 text-slate-500">{t.mixer.binaural}</div>
+          <div className="grid grid-cols-3 gap-2">
+            {BINAURAL_BEATS.map(binauralBeat => (
+              <button key={binauralBeat} onClick={() => set({ binauralBeat })} className={optionClass(mixer.binauralBeat === binauralBeat)}>
+                {t.mixer.binauralBeats[binauralBeat]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {(mixer.soundscape !== 'none' || mixer.binauralBeat !== 'off') && (
+          <LevelSlider label={t.mixer.ambience} value={mixer.ambienceLevel} disabled={mixer.muted} onChange={v => set({ ambienceLevel: v })} />
+        )}
+      </div>
+    </div>
+  );
+};
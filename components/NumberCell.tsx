@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+
+interface NumberCellProps {
+  value: number;
+  min: number;
+  max?: number;
+  step: number;
+  onCommit: (value: number) => void;
+  className: string;
+}
+
+// Edits a draft string and only commits (and so clamps) on blur or Enter; clamping per keystroke
+// would turn the "3" of "30" into the minimum before the "0" arrives
+export const NumberCell: React.FC<NumberCellProps> = ({ value, min, max, step, onCommit, className }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed)) onCommit(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number" min={min} max={max} step={step}
+      value={draft ?? String(value)}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={className}
+    />
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { SettingsPreset } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface PresetControlsProps {
+  presets: SettingsPreset[];
+  onApply: (id: string) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const PresetControls: React.FC<PresetControlsProps> = ({ presets, onApply, onSave, onDelete }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.presets.title}</span>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              className="flex items-center rounded-xl text-sm font-bold bg-slate-700 text-slate-300 hover:bg-slate-600 transition-all"
+            >
+              <button onClick={() => onApply(preset.id)} aria-label={t.presets.apply(preset.name)} className="pl-3 pr-2 py-2">
+                {preset.name}
+              </button>
+              <button onClick={() => onDelete(preset.id)} aria-label={t.presets.delete(preset.name)} className="p-1 mr-2 opacity-60 hover:opacity-100">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          placeholder={t.presets.savePlaceholder}
+          maxLength={32}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && submit()}
+          className="flex-1 bg-slate-900 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+        <button
+          onClick={submit}
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-4 rounded-xl text-sm font-bold bg-cyan-500 text-slate-900 disabled:opacity-40"
+        >
+          <Save className="w-4 h-4" /> {t.common.save}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, UserRound } from 'lucide-react';
+import { Profile } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProfileControlsProps {
+  profiles: Profile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export const ProfileControls: React.FC<ProfileControlsProps> = ({ profiles, activeId, onSwitch, onAdd, onRemove }) => {
+  const { t } = useI18n();
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onAdd(name.trim());
+    setName('');
+    setAdding(false);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.profiles.title}</span>
+        {!adding && (
+          <button onClick={() => setAdding(true)} className="flex items-center gap-1 text-cyan-400 font-bold">
+            <Plus className="w-4 h-4" /> {t.common.add}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {profiles.map(profile => (
+          <div
+            key={profile.id}
+            className={`flex items-center rounded-xl text-sm font-bold transition-all ${
+              profile.id === activeId
+                ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+                : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+            }`}
+          >
+            <button onClick={() => onSwitch(profile.id)} aria-pressed={profile.id === activeId} className="flex items-center gap-2 pl-3 pr-2 py-2">
+              <UserRound className="w-4 h-4" />
+              <span>{profile.name}</span>
+            </button>
+            {profiles.length > 1 && profile.id !== activeId && (
+              <button
+                onClick={() => {
+                  if (window.confirm(t.profiles.confirmRemove(profile.name))) onRemove(profile.id);
+                }}
+                aria-label={t.profiles.remove(profile.name)}
+                className="p-1 mr-2 opacity-60 hover:opacity-100"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {adding && (
+        <div className="flex gap-2 mt-3">
+          <input
+            autoFocus
+            value={name}
+            placeholder={t.profiles.namePlaceholder}
+            maxLength={24}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submit()}
+            className="flex-1 bg-slate-900 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+          <button onClick={submit} className="px-4 rounded-xl text-sm font-bold bg-cyan-500 text-slate-900">{t.common.add}</button>
+          <button onClick={() => setAdding(false)} className="px-3 rounded-xl text-sm font-bold bg-slate-700 text-slate-400">{t.common.cancel}</button>
+        </div>
+      )}
+    </div>
+  );
+};
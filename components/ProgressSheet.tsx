@@ -0,0 +1,181 @@
+import React from 'react';
+import { X, Trophy } from 'lucide-react';
+import { SessionRecord } from '../types';
+import { formatClock, formatDate } from '../services/i18n';
+import { themeColor } from '../services/theme';
+import { useI18n } from '../hooks/useI18n';
+import { bestHoldsByRound, retentionSeries, roundTrends, weeklyPracticeMinutes } from '../utils/progress';
+
+interface ProgressSheetProps {
+  sessions: SessionRecord[];
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const ROLLING_WINDOW = 5;
+const WEEKS_SHOWN = 8;
+
+// Round index -> stroke colour, cycling for long sessions
+const ROUND_COLORS = [themeColor('cyan', 400), themeColor('emerald', 500), themeColor('rose', 500), themeColor('indigo', 400), themeColor('amber', 400)];
+const GRID_COLOR = themeColor('slate', 700);
+const LABEL_COLOR = themeColor('slate', 500);
+
+const SectionTitle: React.FC<{ title: string; detail?: string }> = ({ title, detail }) => (
+  <div className="flex justify-between text-sm mb-3 text-slate-400">
+    <span>{title}</span>
+    {detail && <span className="text-cyan-400 font-mono font-bold">{detail}</span>}
+  </div>
+);
+
+const RetentionTrend: React.FC<{ sessions: SessionRecord[] }> = ({ sessions }) => {
+  const { t } = useI18n();
+  const points = retentionSeries(sessions);
+  if (points.length === 0) {
+    return <p className="text-xs text-slate-600">{t.progress.noHolds}</p>;
+  }
+
+  const maxTime = Math.max(...points.map(p => p.retentionTime), 1);
+  const x = (i: number) => (points.length === 1 ? CHART_WIDTH / 2 : (i / (points.length - 1)) * CHART_WIDTH);
+  const y = (seconds: number) => CHART_HEIGHT - (seconds / maxTime) * (CHART_HEIGHT - 8) - 4;
+  const trends = roundTrends(points, ROLLING_WINDOW);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 overflow-visible">
+      <line x1="0" y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} strokeWidth="1" style={{ stroke: GRID_COLOR }} />
+      {trends.map(trend => (
+        <polyline
+          key={trend.round}
+          points={trend.points.map(p => `${x(p.index)},${y(p.average)}`).join(' ')}
+          fill="none"
+          style={{ stroke: ROUND_COLORS[(trend.round - 1) % ROUND_COLORS.length] }}
+          strokeWidth="2"
+          strokeLinejoin="round"
+          className="opacity-60"
+        />
+      ))}
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={x(i)}
+          cy={y(p.retentionTime)}
+          r="2.5"
+          style={{ fill: ROUND_COLORS[(p.round - 1) % ROUND_COLORS.length] }}
+          className="opacity-80"
+        />
+      ))}
+      <text x="0" y="-4" style={{ fill: LABEL_COLOR }} fontSize="9" fontFamily="monospace">{formatClock(maxTime)}</text>
+    </svg>
+  );
+};
+
+const BestHolds: React.FC<{ sessions: SessionRecord[] }> = ({ sessions }) => {
+  const { t } = useI18n();
+  const bests = bestHoldsByRound(sessions);
+  const rounds = Object.keys(bests).map(Number).sort((a, b) => a - b);
+  if (rounds.length === 0) {
+    return <p className="text-xs text-slate-600">{t.progress.bestsAfterFirst}</p>;
+  }
+
+  const maxTime = Math.max(...rounds.map(r => bests[r]));
+
+  return (
+    <div className="space-y-2">
+      {rounds.map(round => (
+        <div key={round} className="flex items-center gap-3">
+          <span className="w-8 text-xs text-slate-500 font-mono">{t.common.roundShort(round)}</span>
+          <svg viewBox="0 0 100 8" preserveAspectRatio="none" className="flex-1 h-2">
+            <rect x="0" y="0" width="100" height="8" rx="4" style={{ fill: GRID_COLOR }} />
+            <rect
+              x="0" y="0"
+              width={(bests[round] / maxTime) * 100}
+              height="8" rx="4"
+              style={{ fill: ROUND_COLORS[(round - 1) % ROUND_COLORS.length] }}
+            />
+          </svg>
+          <span className="w-12 text-right text-sm font-mono text-white">{formatClock(bests[round])}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const WeeklyMinutes: React.FC<{ sessions: SessionRecord[] }> = ({ sessions }) => {
+  const weeks = weeklyPracticeMinutes(sessions, WEEKS_SHOWN);
+  const maxMinutes = Math.max(...weeks.map(w => w.minutes), 1);
+  const slot = CHART_WIDTH / weeks.length;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 14}`} className="w-full h-36">
+      {weeks.map((week, i) => {
+        const height = (week.minutes / maxMinutes) * (CHART_HEIGHT - 14);
+        return (
+          <g key={week.weekStart}>
+            <rect
+              x={i * slot + slot * 0.2}
+              y={CHART_HEIGHT - height}
+              width={slot * 0.6}
+              height={height}
+              rx="3"
+              style={{ fill: i === weeks.length - 1 ? ROUND_COLORS[0] : ROUND_COLORS[1] }}
+              className="opacity-70"
+            />
+            {week.minutes > 0 && (
+              <text x={i * slot + slot / 2} y={CHART_HEIGHT - height - 4} textAnchor="middle" style={{ fill: themeColor('slate', 400) }} fontSize="9" fontFamily="monospace">
+                {Math.round(week.minutes)}
+              </text>
+            )}
+            <text x={i * slot + slot / 2} y={CHART_HEIGHT + 12} textAnchor="middle" style={{ fill: LABEL_COLOR }} fontSize="8">
+              {formatDate(week.weekStart, { month: 'numeric', day: 'numeric' })}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const ProgressSheet: React.FC<ProgressSheetProps> = ({ sessions, onClose }) => {
+  const { t } = useI18n();
+  const bests = bestHoldsByRound(sessions);
+  const overallBest = Math.max(0, ...Object.values(bests));
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={onClose}>
+      <div className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-white">{t.progress.title}</h3>
+          <button onClick={onClose} aria-label={t.common.close} className="p-2 bg-slate-700 rounded-full text-slate-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-8 overflow-y-auto no-scrollbar">
+          <div>
+            <SectionTitle title={t.progress.retentionPerRound} detail={t.progress.averageOf(ROLLING_WINDOW)} />
+            <RetentionTrend sessions={sessions} />
+          </div>
+
+          <div>
+            <SectionTitle
+              title={t.progress.bestByRound}
+              detail={overallBest > 0 ? formatClock(overallBest) : undefined}
+            />
+            <BestHolds sessions={sessions} />
+            {overallBest > 0 && (
+              <div className="flex items-center gap-2 mt-3 text-xs text-amber-400">
+                <Trophy className="w-4 h-4" />
+                <span>{t.progress.longestOverall}</span>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <SectionTitle title={t.progress.weekly} detail={t.progress.minutes} />
+            <WeeklyMinutes sessions={sessions} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
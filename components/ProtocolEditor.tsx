@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { BreathingProtocol, ProtocolStep } from '../types';
+import { validateProtocol } from '../services/protocols';
+import { useI18n } from '../hooks/useI18n';
+import { NumberCell } from './NumberCell';
+
+interface ProtocolEditorProps {
+  protocol: BreathingProtocol;
+  onSave: (protocol: BreathingProtocol) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_STEPS: Record<ProtocolStep['type'], ProtocolStep> = {
+  paced: { type: 'paced', inhaleMs: 4000, holdInMs: 0, exhaleMs: 4000, holdOutMs: 0, cycles: 10 },
+  openHold: { type: 'openHold' },
+  timedHold: { type: 'timedHold', durationMs: 15000 },
+  rest: { type: 'rest', durationMs: 30000 },
+};
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  step = 0.5,
+  onChange,
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] uppercase font-bold tracking-wider text-slate-500">
+    {label}
+    <NumberCell
+      min={0}
+      step={step}
+      value={value}
+      onCommit={v => onChange(Math.max(0, v))}
+      className="w-full bg-slate-900 rounded-lg px-2 py-2 text-sm font-mono text-white normal-case tracking-normal outline-none focus:ring-2 focus:ring-cyan-500"
+    />
+  </label>
+);
+
+// Durations are edited in seconds and stored in milliseconds
+const toSeconds = (ms: number) => Math.round(ms / 100) / 10;
+
+export const ProtocolEditor: React.FC<ProtocolEditorProps> = ({ protocol, onSave, onDelete, onCancel }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<BreathingProtocol>(protocol);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateStep = (index: number, step: ProtocolStep) => {
+    setDraft(d => ({ ...d, steps: d.steps.map((s, i) => (i === index ? step : s)) }));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setDraft(d => {
+      const target = index + offset;
+      if (target < 0 || target >= d.steps.length) return d;
+      const steps = [...d.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...d, steps };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setDraft(d => ({ ...d, steps: d.steps.filter((_, i) => i !== index) }));
+  };
+
+  const addStep = (type: ProtocolStep['type']) => {
+    setDraft(d => ({ ...d, steps: [...d.steps, DEFAULT_STEPS[type]] }));
+  };
+
+  const handleSave = () => {
+    const problem = validateProtocol(draft);
+    setError(problem);
+    if (!problem) onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  const renderStepFields = (step: ProtocolStep, index: number) => {
+    switch (step.type) {
+      case 'paced':
+        return (
+          <div className="grid grid-cols-5 gap-2">
+            <NumberField label={t.editor.inhale} value={toSeconds(step.inhaleMs)} onChange={v => updateStep(index, { ...step, inhaleMs: v * 1000 })} />
+            <NumberField label={t.editor.hold} value={toSeconds(step.holdInMs)} onChange={v => updateStep(index, { ...step, holdInMs: v * 1000 })} />
+            <NumberField label={t.editor.exhale} value={toSeconds(step.exhaleMs)} onChange={v => updateStep(index, { ...step, exhaleMs: v * 1000 })} />
+            <NumberField label={t.editor.hold} value={toSeconds(step.holdOutMs)} onChange={v => updateStep(index, { ...step, holdOutMs: v * 1000 })} />
+            <NumberField label={t.editor.breaths} value={step.cycles} step={1} onChange={v => updateStep(index, { ...step, cycles: Math.round(v) })} />
+          </div>
+        );
+      case 'timedHold':
+      case 'rest':
+        return (
+          <div className="w-24">
+            <NumberField label={t.editor.seconds} value={toSeconds(step.durationMs)} step={1} onChange={v => updateStep(index, { ...step, durationMs: v * 1000 })} />
+          </div>
+        );
+      case 'openHold':
+        return <p className="text-xs text-slate-500">{t.editor.openHoldHint}</p>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-[1fr_5rem] gap-3">
+        <label className="flex flex-col gap-1 text-[10px] uppercase font-bold tracking-wider text-slate-500">
+          {t.editor.name}
+          <input
+            type="text"
+            value={draft.name}
+            onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+            placeholder={t.editor.namePlaceholder}
+            className="w-full bg-slate-900 rounded-lg px-3 py-2 text-sm text-white normal-case tracking-normal outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </label>
+        <NumberField label={t.editor.rounds} value={draft.rounds} step={1} onChange={v => setDraft(d => ({ ...d, rounds: Math.round(v) }))} />
+      </div>
+
+      <div className="space-y-3">
+        {draft.steps.map((step, index) => (
+          <div key={index} className="bg-slate-900/50 p-3 rounded-2xl border border-slate-700 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-slate-300">
+                {index + 1}. {t.protocols.steps[step.type]}
+              </span>
+              <div className="flex items-center gap-1 text-slate-500">
+                <button onClick={() => moveStep(index, -1)} aria-label={t.editor.moveUp} className="p-1 hover:text-white"><ChevronUp className="w-4 h-4" /></button>
+                <button onClick={() => moveStep(index, 1)} aria-label={t.editor.moveDown} className="p-1 hover:text-white"><ChevronDown className="w-4 h-4" /></button>
+                <button onClick={() => removeStep(index)} aria-label={t.editor.removeStep} className="p-1 hover:text-rose-400"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+            {renderStepFields(step, index)}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(DEFAULT_STEPS) as ProtocolStep['type'][]).map(type => (
+          <button
+            key={type}
+            onClick={() => addStep(type)}
+            className="flex items-center justify-center gap-1 py-2 rounded-xl text-xs font-bold bg-slate-700 text-slate-400 hover:bg-slate-600"
+          >
+            <Plus className="w-3 h-3" /> {t.protocols.steps[type]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-rose-400">{error}</p>}
+
+      <div className="flex gap-3">
+        {onDelete && (
+          <button onClick={onDelete} aria-label={t.editor.deleteProtocol} className="p-3 rounded-xl bg-slate-700 text-rose-400 hover:bg-slate-600">
+            <Trash2 className="w-5 h-5" />
+          </button>
+        )}
+        <button onClick={onCancel} className="flex-1 py-3 rounded-xl text-sm font-bold bg-slate-700 text-slate-400 hover:bg-slate-600">
+          {t.common.cancel}
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-1 py-3 rounded-xl text-sm font-bold bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20"
+        >
+          {t.common.save}
+        </button>
+      </div>
+    </div>
+  );
+};
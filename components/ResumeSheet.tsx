@@ -0,0 +1,67 @@
+import React from 'react';
+import { RotateCcw, Save } from 'lucide-react';
+import { SessionCheckpoint, SessionPhase } from '../types';
+import { formatClock, formatDate } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ResumeSheetProps {
+  checkpoint: SessionCheckpoint;
+  onResume: () => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+const PHASE_LABELS: Partial<Record<SessionPhase, 'breathing' | 'retention' | 'recovery' | 'rest'>> = {
+  [SessionPhase.BREATHING]: 'breathing',
+  [SessionPhase.RETENTION]: 'retention',
+  [SessionPhase.RECOVERY]: 'recovery',
+  [SessionPhase.REST]: 'rest',
+};
+
+export const ResumeSheet: React.FC<ResumeSheetProps> = ({ checkpoint, onResume, onSave, onDiscard }) => {
+  const { t } = useI18n();
+  const { protocol, round, totalRounds, phase, stats, savedAt } = checkpoint;
+  const stoppedAt = formatDate(savedAt, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in">
+      <div className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl">
+        <h3 className="text-xl font-bold text-white mb-2">{t.resume.title}</h3>
+        <p className="text-sm text-slate-400 mb-6">
+          {t.resume.description(protocol.name, stoppedAt, t.resume.phases[PHASE_LABELS[phase] ?? 'other'], round, totalRounds)}
+        </p>
+
+        {stats.length > 0 && (
+          <div className="space-y-2 mb-8 overflow-y-auto no-scrollbar">
+            {stats.map(stat => (
+              <div key={stat.round} className="flex justify-between items-center p-3 rounded-xl bg-slate-900/50 border border-slate-700">
+                <span className="text-slate-400 text-sm font-medium">{t.common.round(stat.round)}</span>
+                <span className="font-mono text-white">{formatClock(stat.retentionTime)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <button
+            onClick={onResume}
+            className="w-full py-4 flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold rounded-2xl shadow-lg shadow-cyan-500/20 transition-all"
+          >
+            <RotateCcw className="w-5 h-5" /> {t.resume.resumeRound(round)}
+          </button>
+          {stats.length > 0 && (
+            <button
+              onClick={onSave}
+              className="w-full py-4 flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded-2xl transition-all"
+            >
+              <Save className="w-5 h-5" /> {t.resume.saveCompleted}
+            </button>
+          )}
+          <button onClick={onDiscard} className="w-full py-3 text-sm font-bold text-slate-500 hover:text-slate-300 transition-colors">
+            {t.resume.discard}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { BreathingSettings, RoundSettings } from '../types';
+import { resolveRounds } from '../services/protocols';
+import { SETTINGS_LIMITS } from '../services/settings';
+import { useI18n } from '../hooks/useI18n';
+import { NumberCell } from './NumberCell';
+
+interface RoundScheduleTableProps {
+  settings: BreathingSettings;
+  onChange: (settings: BreathingSettings) => void;
+}
+
+const breathLimits = SETTINGS_LIMITS.breathsPerRound;
+const tempoLimits = SETTINGS_LIMITS.tempoMs;
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+export const RoundScheduleTable: React.FC<RoundScheduleTableProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const rounds = resolveRounds(settings);
+  const hasOverrides = settings.roundOverrides.some(o => o && Object.keys(o).length > 0);
+
+  const setOverride = (index: number, patch: Partial<RoundSettings>) => {
+    const roundOverrides = [...settings.roundOverrides];
+    roundOverrides[index] = { ...roundOverrides[index], ...patch };
+    onChange({ ...settings, roundOverrides });
+  };
+
+  const isOverridden = (index: number, key: keyof RoundSettings) =>
+    settings.roundOverrides[index]?.[key] !== undefined;
+
+  const cellClass = (overridden: boolean) =>
+    `w-full bg-slate-900 rounded-lg px-2 py-2 text-sm font-mono text-center outline-none focus:ring-2 focus:ring-cyan-500 ${
+      overridden ? 'text-cyan-400' : 'text-slate-400'
+    }`;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.roundSchedule.title}</span>
+        {hasOverrides && (
+          <button onClick={() => onChange({ ...settings, roundOverrides: [] })} className="flex items-center gap-1 text-cyan-400 font-bold">
+            <RotateCcw className="w-3 h-3" /> {t.roundSchedule.reset}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-center">
+        <span />
+        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 text-center">{t.roundSchedule.breaths}</span>
+        <span className="text-[10px] uppercase font-bold tracking-wider text-slate-500 text-center">{t.roundSchedule.tempo}</span>
+        {rounds.map((round, index) => (
+          <React.Fragment key={index}>
+            <span className="text-xs font-mono text-slate-500">
+              {settings.extraFinalRound && index === rounds.length - 1 ? t.roundSchedule.final : t.common.roundShort(index + 1)}
+            </span>
+            <NumberCell
+              min={breathLimits.min} max={breathLimits.max} step={1}
+              value={round.breathsPerRound}
+              onCommit={value => setOverride(index, { breathsPerRound: clamp(Math.round(value), breathLimits) })}
+              className={cellClass(isOverridden(index, 'breathsPerRound'))}
+            />
+            <NumberCell
+              min={tempoLimits.min / 1000} max={tempoLimits.max / 1000} step={0.1}
+              value={round.tempoMs / 1000}
+              onCommit={value => setOverride(index, { tempoMs: clamp(Math.round(value * 1000), tempoLimits) })}
+              className={cellClass(isOverridden(index, 'tempoMs'))}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface SafetySheetProps {
+  // 'acknowledge' is the full warning shown on first run; 'environment' is the quick check before a session
+  mode: 'acknowledge' | 'environment';
+  onConfirm: () => void;
+  onCancel?: () => void; // the acknowledgement can't be dismissed, only accepted
+}
+
+export const SafetySheet: React.FC<SafetySheetProps> = ({ mode, onConfirm, onCancel }) => {
+  const { t } = useI18n();
+  const [checked, setChecked] = useState(false);
+  const statement = mode === 'acknowledge' ? t.safety.understand : t.safety.environment;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="safety-title"
+        className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <AlertTriangle className="w-6 h-6 text-amber-400" />
+          <h3 id="safety-title" className="text-xl font-bold text-white">
+            {mode === 'acknowledge' ? t.safety.title : t.safety.environmentTitle}
+          </h3>
+        </div>
+
+        {mode === 'acknowledge' && (
+          <ul className="space-y-3 mb-6 overflow-y-auto no-scrollbar text-sm text-slate-300">
+            {t.safety.warnings.map(warning => (
+              <li key={warning} className="p-3 rounded-xl bg-slate-900/50 border border-slate-700">{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <label className="flex items-start gap-3 p-4 mb-6 rounded-2xl bg-amber-400/10 border border-amber-400/40 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={checked}
+            onChange={e => setChecked(e.target.checked)}
+            className="mt-0.5 w-5 h-5 accent-amber-400 shrink-0"
+          />
+          <span className="text-sm text-white">{statement}</span>
+        </label>
+
+        <div className="space-y-3">
+          <button
+            onClick={onConfirm}
+            disabled={!checked}
+            className="w-full py-4 flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-400 disabled:bg-slate-700 disabled:text-slate-500 text-slate-900 font-bold rounded-2xl shadow-lg shadow-cyan-500/20 disabled:shadow-none transition-all"
+          >
+            <Check className="w-5 h-5" /> {mode === 'acknowledge' ? t.safety.accept : t.safety.begin}
+          </button>
+          {onCancel && (
+            <button onClick={onCancel} className="w-full py-3 text-sm font-bold text-slate-500 hover:text-slate-300 transition-colors">
+              {t.common.cancel}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,513 @@
+import React, { useState } from 'react';
+import { X, Plus, Pencil } from 'lucide-react';
+import { BreathingProtocol, BreathingSettings, HapticSettings, MixerSettings, Profile, SessionPreferences, ThemeSettings, VOICE_VERBOSITIES, VoiceSettings } from '../types';
+import { WIM_HOF_ID, getBuiltInProtocols, planProtocol, estimatePlanMs } from '../services/protocols';
+import { getPhraseTables, isSpeechSupported } from '../services/voice';
+import { SETTINGS_LIMITS } from '../services/settings';
+import { LOCALES, formatClock } from '../services/i18n';
+import { MAX_HOLD_OPTIONS } from '../services/safety';
+import { isMicrophoneSupported } from '../services/breathListener';
+import { useI18n } from '../hooks/useI18n';
+import { createId } from '../utils/id';
+import { ProtocolEditor } from './ProtocolEditor';
+import { TempoCalibration } from './TempoCalibration';
+import { RoundScheduleTable } from './RoundScheduleTable';
+import { MixerControls } from './MixerControls';
+import { HapticsControls } from './HapticsControls';
+import { ThemeControls } from './ThemeControls';
+import { HeartRateControls } from './HeartRateControls';
+import { HeartRateStatus } from '../hooks/useHeartRate';
+import { HeartRateTransport } from '../services/heartRate';
+import { ProfileControls } from './ProfileControls';
+import { PresetControls } from './PresetControls';
+
+interface SettingsSheetProps {
+  profile: Profile;
+  profiles: Profile[];
+  onSwitchProfile: (id: string) => void;
+  onAddProfile: (name: string) => void;
+  onRemoveProfile: (id: string) => void;
+  onSavePreset: (name: string) => void;
+  onApplyPreset: (id: string) => void;
+  onDeletePreset: (id: string) => void;
+  settings: BreathingSettings;
+  onChange: (settings: BreathingSettings) => void;
+  voice: VoiceSettings;
+  onVoiceChange: (voice: VoiceSettings) => void;
+  haptics: HapticSettings;
+  onHapticsChange: (haptics: HapticSettings) => void;
+  mixer: MixerSettings;
+  onMixerChange: (mixer: MixerSettings) => void;
+  preferences: SessionPreferences;
+  onPreferencesChange: (preferences: SessionPreferences) => void;
+  theme: ThemeSettings;
+  onThemeChange: (theme: ThemeSettings) => void;
+  heartRateStatus: HeartRateStatus;
+  heartRateDevice: string;
+  onHeartRateConnect: (transport: HeartRateTransport) => void;
+  onHeartRateDisconnect: () => void;
+  customProtocols: BreathingProtocol[];
+  onSaveProtocol: (protocol: BreathingProtocol) => void;
+  onDeleteProtocol: (id: string) => void;
+  onClose: () => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-3 rounded-xl text-sm font-bold transition-all ${
+    selected
+      ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+      : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+  }`;
+
+const newProtocol = (): BreathingProtocol => ({
+  id: createId(),
+  name: '',
+  rounds: 1,
+  steps: [{ type: 'paced', inhaleMs: 4000, holdInMs: 0, exhaleMs: 4000, holdOutMs: 0, cycles: 10 }],
+});
+
+// Quick picks under the free-form tempo slider
+const TEMPO_PRESETS = [
+  { tempoMs: 2500, label: 'tempoFast' },
+  { tempoMs: 3500, label: 'tempoNormal' },
+  { tempoMs: 5000, label: 'tempoRelaxed' },
+] as const;
+
+export const SettingsSheet: React.FC<SettingsSheetProps> = ({
+  profile,
+  profiles,
+  onSwitchProfile,
+  onAddProfile,
+  onRemoveProfile,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  settings,
+  onChange,
+  voice,
+  onVoiceChange,
+  haptics,
+  onHapticsChange,
+  mixer,
+  onMixerChange,
+  preferences,
+  onPreferencesChange,
+  theme,
+  onThemeChange,
+  heartRateStatus,
+  heartRateDevice,
+  onHeartRateConnect,
+  onHeartRateDisconnect,
+  customProtocols,
+  onSaveProtocol,
+  onDeleteProtocol,
+  onClose,
+}) => {
+  const { t, locale, setLocale } = useI18n();
+  const [editing, setEditing] = useState<BreathingProtocol | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const protocols = [...getBuiltInProtocols(settings), ...customProtocols];
+  const isCustom = (id: string) => customProtocols.some(p => p.id === id);
+
+  const renderProtocolPicker = () => (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.settings.protocol}</span>
+        <button onClick={() => setEditing(newProtocol())} className="flex items-center gap-1 text-cyan-400 font-bold">
+          <Plus className="w-4 h-4" /> {t.settings.newProtocol}
+        </button>
+      </div>
+      <div className="space-y-2">
+        {protocols.map(protocol => (
+          <div
+            key={protocol.id}
+            className={`flex items-center rounded-xl transition-all ${
+              settings.protocolId === protocol.id
+                ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+                : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+            }`}
+          >
+            <button
+              onClick={() => onChange({ ...settings, protocolId: protocol.id })}
+              aria-pressed={settings.protocolId === protocol.id}
+              className="flex-1 flex justify-between items-center px-4 py-3 text-left"
+            >
+              <span className="text-sm font-bold">{protocol.name}</span>
+              <span className="text-xs font-mono opacity-70">{t.common.approxMinutes(Math.ceil(estimatePlanMs(planProtocol(protocol, settings)) / 60000))}</span>
+            </button>
+            {isCustom(protocol.id) && (
+              <button onClick={() => setEditing(protocol)} aria-label={t.editor.edit(protocol.name)} className="p-1 mr-3">
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderWimHofControls = () => (
+    <>
+      {/* Breaths per Round */}
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.breathsPerRound}</span>
+          <span className="text-cyan-400 font-mono font-bold">{settings.breathsPerRound}</span>
+        </div>
+        <input
+          type="range"
+          min={SETTINGS_LIMITS.breathsPerRound.min} max={SETTINGS_LIMITS.breathsPerRound.max} step="1"
+          value={settings.breathsPerRound}
+          onChange={(e) => onChange({ ...settings, breathsPerRound: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <div className="flex justify-between text-xs text-slate-600 mt-2 font-mono">
+          <span>{SETTINGS_LIMITS.breathsPerRound.min}</span>
+          <span>{SETTINGS_LIMITS.breathsPerRound.max}</span>
+        </div>
+      </div>
+
+      {/* Speed */}
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.breathingSpeed}</span>
+          <span className="text-cyan-400 font-mono font-bold">{t.common.seconds((settings.tempoMs / 1000).toFixed(1))}</span>
+        </div>
+        <input
+          type="range"
+          min={SETTINGS_LIMITS.tempoMs.min} max={SETTINGS_LIMITS.tempoMs.max} step="100"
+          value={settings.tempoMs}
+          onChange={(e) => onChange({ ...settings, tempoMs: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <div className="grid grid-cols-3 gap-3 mt-3">
+          {TEMPO_PRESETS.map(({ tempoMs, label }) => (
+            <button
+              key={tempoMs}
+              onClick={() => onChange({ ...settings, tempoMs })}
+              className={`py-3 rounded-xl text-sm font-bold transition-all ${
+                settings.tempoMs === tempoMs
+                  ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+                  : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+              }`}
+            >
+              {t.settings[label]}
+            </button>
+          ))}
+        </div>
+
+        {/* Inhale:exhale split, stored as the inhale's share of each breath */}
+        <div className="flex justify-between text-xs mt-4 mb-2 text-slate-500">
+          <span>{t.settings.inhaleShare}</span>
+          <span className="text-cyan-400 font-mono font-bold">
+            {t.settings.inhaleSplit(
+              t.common.seconds(((settings.tempoMs * settings.inhaleRatio) / 1000).toFixed(1)),
+              t.common.seconds(((settings.tempoMs * (1 - settings.inhaleRatio)) / 1000).toFixed(1))
+            )}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={SETTINGS_LIMITS.inhaleRatio.min * 100} max={SETTINGS_LIMITS.inhaleRatio.max * 100} step="5"
+          value={Math.round(settings.inhaleRatio * 100)}
+          onChange={(e) => onChange({ ...settings, inhaleRatio: parseInt(e.target.value) / 100 })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <button
+          onClick={() => setCalibrating(true)}
+          className="mt-3 w-full py-3 rounded-xl text-sm font-bold bg-slate-700 text-slate-300 hover:bg-slate-600 transition-all"
+        >
+          {t.calibration.open}
+        </button>
+      </div>
+
+      {/* Rounds */}
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.rounds}</span>
+          <span className="text-cyan-400 font-mono font-bold">{settings.totalRounds}</span>
+        </div>
+        <input
+          type="range"
+          min={SETTINGS_LIMITS.totalRounds.min} max={SETTINGS_LIMITS.totalRounds.max} step="1"
+          value={settings.totalRounds}
+          onChange={(e) => onChange({ ...settings, totalRounds: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <div className="flex justify-between text-xs text-slate-600 mt-2 font-mono">
+          <span>{SETTINGS_LIMITS.totalRounds.min}</span>
+          <span>{SETTINGS_LIMITS.totalRounds.max}</span>
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, extraFinalRound: !settings.extraFinalRound })}
+          className={`mt-3 w-full py-3 rounded-xl text-sm font-bold transition-all ${
+            settings.extraFinalRound
+              ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+              : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+          }`}
+        >
+          {t.settings.extraFinalRound(settings.extraFinalRound)}
+        </button>
+      </div>
+
+      {/* Recovery Hold */}
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.recoveryHold}</span>
+          <span className="text-cyan-400 font-mono font-bold">{t.common.seconds(settings.recoveryHoldSeconds)}</span>
+        </div>
+        <input
+          type="range"
+          min={SETTINGS_LIMITS.recoveryHoldSeconds.min} max={SETTINGS_LIMITS.recoveryHoldSeconds.max} step="1"
+          value={settings.recoveryHoldSeconds}
+          onChange={(e) => onChange({ ...settings, recoveryHoldSeconds: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <div className="flex justify-between text-xs text-slate-600 mt-2 font-mono">
+          <span>{SETTINGS_LIMITS.recoveryHoldSeconds.min}</span>
+          <span>{SETTINGS_LIMITS.recoveryHoldSeconds.max}</span>
+        </div>
+      </div>
+
+      <RoundScheduleTable settings={settings} onChange={onChange} />
+    </>
+  );
+
+  // Lead-in and between-round settling apply to every protocol
+  const renderPrepareControls = () => {
+    const row = (label: string, key: 'prepareSeconds' | 'settleBreaths' | 'roundRestSeconds', options: number[], format: (n: number) => string) => (
+      <div className="flex justify-between items-center">
+        <span>{label}</span>
+        <div className="flex gap-2">
+          {options.map(n => (
+            <button key={n} onClick={() => onChange({ ...settings, [key]: n })} className={`w-14 ${optionClass(settings[key] === n)}`}>
+              {n === 0 ? t.settings.prepareOff : format(n)}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+    return (
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.prepare}</span>
+        </div>
+        <div className="space-y-3 text-sm text-slate-400">
+          {row(t.settings.prepareCountdown, 'prepareSeconds', [0, 5, 10, 30], t.common.seconds)}
+          {row(t.settings.settleBreaths, 'settleBreaths', [0, 3, 5, 10], String)}
+          {row(t.settings.roundRest, 'roundRestSeconds', [0, 10, 20, 30], t.common.seconds)}
+        </div>
+      </div>
+    );
+  };
+
+  const renderVoiceControls = () => {
+    const phraseTables = getPhraseTables();
+
+    return (
+      <div>
+        <div className="flex justify-between text-sm mb-3 text-slate-400">
+          <span>{t.settings.voiceCoach}</span>
+          {!isSpeechSupported() && <span className="text-xs text-slate-600">{t.settings.notSupported}</span>}
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {VOICE_VERBOSITIES.map(verbosity => (
+            <button
+              key={verbosity}
+              onClick={() => onVoiceChange({ ...voice, verbosity })}
+              className={optionClass(voice.verbosity === verbosity)}
+            >
+              {t.settings.verbosity[verbosity]}
+            </button>
+          ))}
+        </div>
+
+        {voice.verbosity !== 'off' && (
+          <div className="mt-4 space-y-3 text-sm text-slate-400">
+            {voice.verbosity === 'detailed' && (
+              <div className="flex justify-between items-center">
+                <span>{t.settings.countEvery}</span>
+                <div className="flex gap-2">
+                  {[1, 5, 10].map(n => (
+                    <button key={n} onClick={() => onVoiceChange({ ...voice, countInterval: n })} className={`w-14 ${optionClass(voice.countInterval === n)}`}>
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {voice.verbosity !== 'minimal' && (
+              <div className="flex justify-between items-center">
+                <span>{t.settings.holdCallouts}</span>
+                <div className="flex gap-2">
+                  {[15, 30, 60].map(n => (
+                    <button key={n} onClick={() => onVoiceChange({ ...voice, milestoneSeconds: n })} className={`w-14 ${optionClass(voice.milestoneSeconds === n)}`}>
+                      {t.common.seconds(n)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {Object.keys(phraseTables).length > 1 && (
+              <div className="flex justify-between items-center">
+                <span>{t.settings.voiceLanguage}</span>
+                <select
+                  value={voice.phrases}
+                  onChange={e => onVoiceChange({ ...voice, phrases: e.target.value })}
+                  className="bg-slate-700 text-white rounded-xl px-3 py-2 outline-none"
+                >
+                  {Object.entries(phraseTables).map(([id, table]) => (
+                    <option key={id} value={id}>{table.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSessionControls = () => (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.settings.session}</span>
+      </div>
+      <button
+        onClick={() => onPreferencesChange({ ...preferences, autoPauseWhenHidden: !preferences.autoPauseWhenHidden })}
+        className={`w-full py-3 rounded-xl text-sm font-bold transition-all ${
+          preferences.autoPauseWhenHidden
+            ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+            : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+        }`}
+      >
+        {t.settings.autoPause(preferences.autoPauseWhenHidden)}
+      </button>
+      <button
+        onClick={() => onPreferencesChange({ ...preferences, confirmSafeEnvironment: !preferences.confirmSafeEnvironment })}
+        className={`mt-3 w-full py-3 rounded-xl text-sm font-bold transition-all ${
+          preferences.confirmSafeEnvironment
+            ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+            : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+        }`}
+      >
+        {t.settings.confirmSafeEnvironment(preferences.confirmSafeEnvironment)}
+      </button>
+
+      <div className="flex justify-between text-xs mt-4 mb-2 text-slate-500">
+        <span>{t.settings.maxHold}</span>
+        <span className="text-cyan-400 font-mono font-bold">{formatClock(preferences.maxHoldSeconds)}</span>
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {MAX_HOLD_OPTIONS.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => onPreferencesChange({ ...preferences, maxHoldSeconds: seconds })}
+            className={optionClass(preferences.maxHoldSeconds === seconds)}
+          >
+            {formatClock(seconds)}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-600 mt-2">{t.settings.maxHoldHint}</p>
+
+      <button
+        onClick={() => onPreferencesChange({ ...preferences, followMicrophone: !preferences.followMicrophone })}
+        disabled={!isMicrophoneSupported()}
+        className={`mt-4 w-full py-3 rounded-xl text-sm font-bold transition-all disabled:opacity-50 ${
+          preferences.followMicrophone
+            ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/40'
+            : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+        }`}
+      >
+        {t.settings.followMicrophone(preferences.followMicrophone)}
+      </button>
+      <p className="text-xs text-slate-600 mt-2">{isMicrophoneSupported() ? t.settings.followMicrophoneHint : t.settings.notSupported}</p>
+    </div>
+  );
+
+  // The interface language belongs to the device, not the profile
+  const renderLanguagePicker = () => (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.settings.language}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {LOCALES.map(option => (
+          <button key={option.id} lang={option.id} onClick={() => setLocale(option.id)} className={optionClass(locale === option.id)}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-end animate-fade-in" onClick={onClose}>
+      <div className="w-full max-h-[85vh] flex flex-col bg-slate-800 rounded-t-[2rem] p-6 pb-12 pt-8 shadow-2xl transform transition-transform duration-300" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-xl font-bold text-white">
+            {editing ? t.settings.editProtocol : calibrating ? t.calibration.title : t.settings.title}
+          </h3>
+          <button onClick={onClose} aria-label={t.common.close} className="p-2 bg-slate-700 rounded-full text-slate-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-8 overflow-y-auto no-scrollbar">
+          {editing ? (
+            <ProtocolEditor
+              protocol={editing}
+              onSave={protocol => {
+                onSaveProtocol(protocol);
+                onChange({ ...settings, protocolId: protocol.id });
+                setEditing(null);
+              }}
+              onDelete={isCustom(editing.id) ? () => {
+                onDeleteProtocol(editing.id);
+                if (settings.protocolId === editing.id) onChange({ ...settings, protocolId: WIM_HOF_ID });
+                setEditing(null);
+              } : undefined}
+              onCancel={() => setEditing(null)}
+            />
+          ) : calibrating ? (
+            <TempoCalibration
+              onApply={({ tempoMs, inhaleRatio }) => {
+                onChange({ ...settings, tempoMs, inhaleRatio });
+                setCalibrating(false);
+              }}
+              onCancel={() => setCalibrating(false)}
+            />
+          ) : (
+            <>
+              <ProfileControls
+                profiles={profiles}
+                activeId={profile.id}
+                onSwitch={onSwitchProfile}
+                onAdd={onAddProfile}
+                onRemove={onRemoveProfile}
+              />
+              <PresetControls presets={profile.presets} onApply={onApplyPreset} onSave={onSavePreset} onDelete={onDeletePreset} />
+              {renderProtocolPicker()}
+              {settings.protocolId === WIM_HOF_ID && renderWimHofControls()}
+              {renderPrepareControls()}
+              <MixerControls mixer={mixer} onChange={onMixerChange} />
+              {renderVoiceControls()}
+              <HapticsControls haptics={haptics} onChange={onHapticsChange} />
+              <HeartRateControls
+                status={heartRateStatus}
+                deviceName={heartRateDevice}
+                onConnect={onHeartRateConnect}
+                onDisconnect={onHeartRateDisconnect}
+              />
+              {renderSessionControls()}
+              <ThemeControls theme={theme} onChange={onThemeChange} />
+              {renderLanguagePicker()}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CALIBRATION_BREATHS, CALIBRATION_TAPS, TempoCalibration as Calibration, calibrateTempo, nextTapIsInhale } from '../services/tempoCalibration';
+import { useI18n } from '../hooks/useI18n';
+
+interface TempoCalibrationProps {
+  onApply: (calibration: Calibration) => void;
+  onCancel: () => void;
+}
+
+// Tap along with a few natural breaths to find a personal tempo and inhale:exhale split
+export const TempoCalibration: React.FC<TempoCalibrationProps> = ({ onApply, onCancel }) => {
+  const { t } = useI18n();
+  const [taps, setTaps] = useState<number[]>([]);
+  const done = taps.length >= CALIBRATION_TAPS;
+  const result = done ? calibrateTempo(taps) : null;
+  const inhale = nextTapIsInhale(taps);
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-400">{t.calibration.intro}</p>
+
+      {!done ? (
+        <div className="flex flex-col items-center gap-4">
+          <button
+            onClick={() => setTaps(current => [...current, performance.now()])}
+            className={`w-40 h-40 rounded-full text-lg font-bold transition-colors select-none ${
+              inhale ? 'bg-cyan-500 text-slate-900' : 'bg-slate-700 text-cyan-400 border border-cyan-500/40'
+            }`}
+          >
+            {inhale ? t.calibration.tapInhale : t.calibration.tapExhale}
+          </button>
+          <span className="text-xs font-mono text-slate-500">
+            {t.calibration.progress(Math.min(CALIBRATION_BREATHS, Math.floor(taps.length / 2)), CALIBRATION_BREATHS)}
+          </span>
+        </div>
+      ) : result ? (
+        <div className="grid grid-cols-3 gap-3 text-center">
+          {[
+            [t.calibration.tempo, t.common.seconds((result.tempoMs / 1000).toFixed(1))],
+            [t.calibration.inhale, t.common.seconds(((result.tempoMs * result.inhaleRatio) / 1000).toFixed(1))],
+            [t.calibration.exhale, t.common.seconds(((result.tempoMs * (1 - result.inhaleRatio)) / 1000).toFixed(1))],
+          ].map(([label, value]) => (
+            <div key={label} className="p-3 rounded-xl bg-slate-700/50">
+              <div className="text-[10px] uppercase font-bold tracking-wider text-slate-500">{label}</div>
+              <div className="mt-1 font-mono font-bold text-cyan-400">{value}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-rose-400">{t.calibration.failed}</p>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 py-3 rounded-xl bg-slate-700 text-slate-300 text-sm font-bold hover:bg-slate-600">
+          {t.common.cancel}
+        </button>
+        {taps.length > 0 && (
+          <button onClick={() => setTaps([])} className="flex-1 py-3 rounded-xl bg-slate-700 text-slate-300 text-sm font-bold hover:bg-slate-600">
+            {t.calibration.retry}
+          </button>
+        )}
+        {result && (
+          <button
+            onClick={() => onApply(result)}
+            className="flex-1 py-3 rounded-xl bg-cyan-500 text-slate-900 text-sm font-bold shadow-lg shadow-cyan-500/20 hover:bg-cyan-400"
+          >
+            {t.calibration.apply}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { ThemeSettings } from '../types';
+import { ACCENT_PHASES, THEME_IDS, defaultAccent } from '../services/theme';
+import { useI18n } from '../hooks/useI18n';
+
+interface ThemeControlsProps {
+  theme: ThemeSettings;
+  onChange: (theme: ThemeSettings) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-3 rounded-xl text-sm font-bold transition-all ${
+    selected
+      ? 'bg-cyan-500 text-slate-900 shadow-lg shadow-cyan-500/20'
+      : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+  }`;
+
+export const ThemeControls: React.FC<ThemeControlsProps> = ({ theme, onChange }) => {
+  const { t } = useI18n();
+  const hasCustomAccents = Object.keys(theme.accents).length > 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-3 text-slate-400">
+        <span>{t.appearance.title}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {THEME_IDS.map(id => (
+          <button key={id} onClick={() => onChange({ ...theme, theme: id })} className={optionClass(theme.theme === id)}>
+            {t.appearance.themes[id]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-xs mt-4 mb-2 text-slate-500">
+        <span>{t.appearance.accents}</span>
+        {hasCustomAccents && (
+          <button onClick={() => onChange({ ...theme, accents: {} })} className="flex items-center gap-1 text-cyan-400 font-bold">
+            <RotateCcw className="w-3 h-3" /> {t.appearance.resetAccents}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {ACCENT_PHASES.map(phase => (
+          <label key={phase} className="flex flex-col items-center gap-2 text-xs text-slate-400">
+            <input
+              type="color"
+              value={theme.accents[phase] ?? defaultAccent(phase)}
+              onChange={e => onChange({ ...theme, accents: { ...theme.accents, [phase]: e.target.value } })}
+              className="w-10 h-10 rounded-full bg-transparent cursor-pointer"
+            />
+            {t.appearance.phases[phase]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+
+// Calls `onFrame` on every animation frame while `active`; the latest callback is always used
+export const useAnimationFrame = (active: boolean, onFrame: () => void) => {
+  const callbackRef = useRef(onFrame);
+  callbackRef.current = onFrame;
+
+  useEffect(() => {
+    if (!active) return;
+    let frameId = 0;
+    const loop = () => {
+      callbackRef.current();
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [active]);
+};
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+
+// Calls onHidden whenever the page goes to the background while enabled
+export const useAutoPause = (enabled: boolean, onHidden: () => void) => {
+  const onHiddenRef = useRef(onHidden);
+  onHiddenRef.current = onHidden;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') onHiddenRef.current();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [enabled]);
+};
@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+import { BreathingProtocol } from '../types';
+import { loadCustomProtocols, saveCustomProtocols } from '../services/protocols';
+
+export const useCustomProtocols = () => {
+  const [protocols, setProtocols] = useState<BreathingProtocol[]>(loadCustomProtocols);
+
+  const update = useCallback((change: (prev: BreathingProtocol[]) => BreathingProtocol[]) => {
+    setProtocols(prev => {
+      const next = change(prev);
+      saveCustomProtocols(next);
+      return next;
+    });
+  }, []);
+
+  const saveProtocol = useCallback((protocol: BreathingProtocol) => {
+    update(prev =>
+      prev.some(p => p.id === protocol.id)
+        ? prev.map(p => (p.id === protocol.id ? protocol : p))
+        : [...prev, protocol]
+    );
+  }, [update]);
+
+  const deleteProtocol = useCallback((id: string) => {
+    update(prev => prev.filter(p => p.id !== id));
+  }, [update]);
+
+  return { protocols, saveProtocol, deleteProtocol };
+};
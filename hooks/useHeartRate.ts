@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HeartRateMeasurement, HeartRateTransport, parseHeartRateMeasurement } from '../services/heartRate';
+
+export type HeartRateStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+// One heart-rate sensor at a time. The connection outlives the settings sheet, so this lives in App;
+// onMeasurement sees every parsed packet, the returned reading only the latest.
+export const useHeartRate = (onMeasurement?: (measurement: HeartRateMeasurement) => void) => {
+  const [status, setStatus] = useState<HeartRateStatus>('disconnected');
+  const [reading, setReading] = useState<HeartRateMeasurement | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+  const transportRef = useRef<HeartRateTransport | null>(null);
+
+  const onMeasurementRef = useRef(onMeasurement);
+  onMeasurementRef.current = onMeasurement;
+
+  const disconnect = useCallback(() => {
+    transportRef.current?.disconnect();
+    transportRef.current = null;
+    setStatus('disconnected');
+    setReading(null);
+  }, []);
+
+  const connect = useCallback(async (transport: HeartRateTransport) => {
+    transportRef.current?.disconnect();
+    transportRef.current = transport;
+    setStatus('connecting');
+
+    const handlePacket = (packet: DataView) => {
+      let measurement: HeartRateMeasurement;
+      try {
+        measurement = parseHeartRateMeasurement(packet);
+      } catch (err) {
+        console.warn('Ignoring a malformed heart-rate packet', err);
+        return;
+      }
+      setReading(measurement);
+      onMeasurementRef.current?.(measurement);
+    };
+
+    // The strap went out of range or was switched off
+    const handleClose = () => {
+      if (transportRef.current !== transport) return;
+      transportRef.current = null;
+      setStatus('disconnected');
+      setReading(null);
+    };
+
+    try {
+      await transport.connect(handlePacket, handleClose);
+      if (transportRef.current !== transport) return;
+      setDeviceName(transport.name());
+      setStatus('connected');
+    } catch (err) {
+      if (transportRef.current !== transport) return;
+      transportRef.current = null;
+      // Closing the device picker isn't a failure
+      const cancelled = err instanceof DOMException && err.name === 'NotFoundError';
+      if (!cancelled) console.warn('Could not connect to the heart-rate sensor', err);
+      setStatus(cancelled ? 'disconnected' : 'error');
+    }
+  }, []);
+
+  useEffect(() => () => transportRef.current?.disconnect(), []);
+
+  return { status, reading, deviceName, connect, disconnect };
+};
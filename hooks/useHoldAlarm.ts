@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { HoldAlarmLevel } from '../types';
+import { playAlarm } from '../services/audio';
+import { isHapticsSupported } from '../services/haptics';
+import { ALARM_REPEAT_MS, ALARM_VIBRATION } from '../services/safety';
+
+const sound = (level: HoldAlarmLevel) => {
+  try {
+    playAlarm(level);
+  } catch (e) {
+    // Vibration and the on-screen alert still go off
+  }
+  if (isHapticsSupported()) navigator.vibrate(ALARM_VIBRATION[level]);
+};
+
+// Chimes once when a hold reaches its maximum, then sounds the alarm on repeat until the level drops.
+// Both ignore mute, the mixer and haptics-only mode. onRaise runs once per level change.
+export const useHoldAlarm = (level: HoldAlarmLevel | null, onRaise: (level: HoldAlarmLevel) => void) => {
+  const onRaiseRef = useRef(onRaise);
+  onRaiseRef.current = onRaise;
+
+  useEffect(() => {
+    if (!level) return;
+    onRaiseRef.current(level);
+    sound(level);
+    if (level === 'chime') return;
+
+    const id = window.setInterval(() => sound(level), ALARM_REPEAT_MS);
+    return () => {
+      window.clearInterval(id);
+      if (isHapticsSupported()) navigator.vibrate(0);
+    };
+  }, [level]);
+};
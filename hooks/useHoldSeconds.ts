@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+// How long the breath has really been held. Pausing stops the engine's stopwatch for the hold,
+// but not the person holding it, so time spent paused still counts here.
+export const useHoldSeconds = (holding: boolean, paused: boolean, elapsed: number) => {
+  const [earlierPausesMs, setEarlierPausesMs] = useState(0);
+  const [currentPauseMs, setCurrentPauseMs] = useState(0);
+
+  useEffect(() => {
+    if (!holding) setEarlierPausesMs(0);
+  }, [holding]);
+
+  useEffect(() => {
+    if (!holding || !paused) return;
+    const pausedAt = Date.now();
+    // Intervals keep running, throttled, while the page is in the background
+    const id = window.setInterval(() => setCurrentPauseMs(Date.now() - pausedAt), 1000);
+    return () => {
+      window.clearInterval(id);
+      setEarlierPausesMs(total => total + Date.now() - pausedAt);
+      setCurrentPauseMs(0);
+    };
+  }, [holding, paused]);
+
+  return holding ? elapsed + (earlierPausesMs + currentPauseMs) / 1000 : 0;
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, getMessages, setLocale, subscribeLocale } from '../services/i18n';
+
+// Active locale and its messages; re-renders every subscriber when the language changes
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, t: getMessages(), setLocale };
+};
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { MediaSessionHandlers, startMediaSession, stopMediaSession, updateMediaSession } from '../services/mediaSession';
+
+// Claims the media controls while a session runs and keeps the lock-screen text current
+export const useMediaSession = (active: boolean, title: string, status: string, paused: boolean, handlers: MediaSessionHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!active) return;
+    startMediaSession({
+      play: () => handlersRef.current.play(),
+      pause: () => handlersRef.current.pause(),
+      stop: () => handlersRef.current.stop(),
+      next: () => handlersRef.current.next(),
+    });
+    return stopMediaSession;
+  }, [active]);
+
+  useEffect(() => {
+    if (active) updateMediaSession(title, status, paused);
+  }, [active, title, status, paused]);
+};
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { MixerSettings } from '../types';
+import { sanitizeMixerSettings, setMixerSettings } from '../services/audio';
+import { readStorage, writeStorage } from '../utils/storage';
+
+const STORAGE_KEY = 'glacial-breath:mixer';
+
+// Mixer levels persist across reloads and are pushed to the audio engine whenever they change
+export const useMixerSettings = () => {
+  const [mixer, setMixer] = useState<MixerSettings>(() => sanitizeMixerSettings(readStorage<unknown>(STORAGE_KEY, {})));
+
+  useEffect(() => {
+    setMixerSettings(mixer);
+    writeStorage(STORAGE_KEY, mixer);
+  }, [mixer]);
+
+  return [mixer, setMixer] as const;
+};
@@ -0,0 +1,71 @@
+import { useCallback, useState } from 'react';
+import { Profile } from '../types';
+import { createProfile, loadProfiles, ProfileStore, saveProfiles } from '../services/profiles';
+import { sanitizeSettings } from '../services/settings';
+import { createId } from '../utils/id';
+
+// The active profile plus everything needed to edit, switch and manage profiles and their presets
+export const useProfiles = () => {
+  const [store, setStore] = useState<ProfileStore>(loadProfiles);
+  const profile = store.profiles.find(p => p.id === store.activeId) ?? store.profiles[0];
+
+  const update = useCallback((change: (prev: ProfileStore) => ProfileStore) => {
+    setStore(prev => {
+      const next = change(prev);
+      saveProfiles(next);
+      return next;
+    });
+  }, []);
+
+  const updateActive = useCallback((patch: (profile: Profile) => Partial<Profile>) => {
+    update(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => (p.id === prev.activeId ? { ...p, ...patch(p) } : p)),
+    }));
+  }, [update]);
+
+  const switchProfile = useCallback((id: string) => {
+    update(prev => (prev.profiles.some(p => p.id === id) ? { ...prev, activeId: id } : prev));
+  }, [update]);
+
+  const addProfile = useCallback((name: string) => {
+    const created = createProfile(name);
+    update(prev => ({ activeId: created.id, profiles: [...prev.profiles, created] }));
+  }, [update]);
+
+  // The last profile can't be removed; its sessions stay in history under its id
+  const removeProfile = useCallback((id: string) => {
+    update(prev => {
+      const profiles = prev.profiles.filter(p => p.id !== id);
+      if (profiles.length === 0) return prev;
+      return { activeId: prev.activeId === id ? profiles[0].id : prev.activeId, profiles };
+    });
+  }, [update]);
+
+  const savePreset = useCallback((name: string) => {
+    updateActive(p => ({ presets: [...p.presets, { id: createId(), name, settings: p.settings }] }));
+  }, [updateActive]);
+
+  const applyPreset = useCallback((id: string) => {
+    updateActive(p => {
+      const preset = p.presets.find(x => x.id === id);
+      return preset ? { settings: sanitizeSettings(preset.settings) } : {};
+    });
+  }, [updateActive]);
+
+  const deletePreset = useCallback((id: string) => {
+    updateActive(p => ({ presets: p.presets.filter(x => x.id !== id) }));
+  }, [updateActive]);
+
+  return {
+    profile,
+    profiles: store.profiles,
+    updateActive,
+    switchProfile,
+    addProfile,
+    removeProfile,
+    savePreset,
+    applyPreset,
+    deletePreset,
+  };
+};
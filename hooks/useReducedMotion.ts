@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+// Tracks the OS "reduce motion" setting, including changes while the app is open
+export const useReducedMotion = () => {
+  const [reduced, setReduced] = useState(() => window.matchMedia?.(QUERY).matches ?? false);
+
+  useEffect(() => {
+    const media = window.matchMedia?.(QUERY);
+    if (!media) return;
+    const handleChange = () => setReduced(media.matches);
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, []);
+
+  return reduced;
+};
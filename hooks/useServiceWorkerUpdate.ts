@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { registerServiceWorker } from '../services/serviceWorker';
+
+// Registers the service worker and exposes a pending update, if any, as a function that applies it
+export const useServiceWorkerUpdate = () => {
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  return applyUpdate;
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, createSessionEngine, SessionEngine, SessionListener, SessionState } from '../services/sessionEngine';
+
+// Mirrors the session engine's state into React and forwards its events to the caller
+export const useSessionEngine = (onEvent?: SessionListener, clock?: Clock) => {
+  const engineRef = useRef<SessionEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createSessionEngine(clock);
+  }
+  const engine = engineRef.current;
+
+  const [state, setState] = useState<SessionState>(engine.getState());
+
+  // Keep the latest handler without re-subscribing on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const unsubscribe = engine.subscribe((event, next) => {
+      setState(next);
+      onEventRef.current?.(event, next);
+    });
+
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, [engine]);
+
+  return { state, engine };
+};
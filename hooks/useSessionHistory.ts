@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SessionRecord } from '../types';
+import { deleteSession, listSessionIds, listSessions, saveSession } from '../services/history';
+import { newSessionsOnly } from '../services/historyTransfer';
+
+// Session history of a single profile; switching profiles reloads it
+export const useSessionHistory = (profileId: string) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSessions([]);
+
+    listSessions(profileId)
+      .then(records => {
+        if (!cancelled) setSessions(records);
+      })
+      .catch(err => console.warn('Could not load session history', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const recordSession = useCallback(async (record: SessionRecord) => {
+    if (record.profileId === profileId) setSessions(prev => [record, ...prev.filter(s => s.id !== record.id)]);
+    try {
+      await saveSession(record);
+    } catch (err) {
+      console.warn('Could not save session', err);
+    }
+  }, [profileId]);
+
+  const removeSession = useCallback(async (id: string) => {
+    setSessions(prev => prev.filter(s => s.id !== id));
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.warn('Could not delete session', err);
+    }
+  }, []);
+
+  // Stores the sessions that aren't on this device yet and reports how many that was.
+  // Ids are unique across profiles, so a session another profile already has is skipped rather than moved here.
+  const importSessions = useCallback(async (records: SessionRecord[]) => {
+    const storedIds = new Set(await listSessionIds());
+    const unseen = records.filter(record => !storedIds.has(record.id));
+    const fresh = newSessionsOnly(unseen, sessionsRef.current).map(record => ({ ...record, profileId }));
+    if (fresh.length === 0) return 0;
+    setSessions(prev => [...prev, ...fresh].sort((a, b) => b.startedAt - a.startedAt));
+    await Promise.all(fresh.map(saveSession));
+    return fresh.length;
+  }, [profileId]);
+
+  return { sessions, recordSession, removeSession, importSessions };
+};
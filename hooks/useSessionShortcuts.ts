@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+
+export interface SessionShortcuts {
+  onEndHold: () => void; // Space / Enter
+  onStop: () => void; // Escape
+  onTogglePause: () => void; // P
+}
+
+// Text fields keep their keys; so do open sheets, which pass enabled = false
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Global keyboard control of a running session, usable with eyes closed
+export const useSessionShortcuts = (enabled: boolean, shortcuts: SessionShortcuts) => {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.metaKey || event.ctrlKey || event.altKey || isTyping(event.target)) return;
+
+      let action: (() => void) | null = null;
+      if (event.key === ' ' || event.key === 'Enter') action = shortcutsRef.current.onEndHold;
+      if (event.key === 'Escape') action = shortcutsRef.current.onStop;
+      if (event.key === 'p' || event.key === 'P') action = shortcutsRef.current.onTogglePause;
+      if (!action) return;
+
+      // Stop a focused button from also "clicking" on Space/Enter
+      event.preventDefault();
+      action();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,20 @@
+import { useLayoutEffect, useState } from 'react';
+import { ThemeSettings } from '../types';
+import { applyTheme, sanitizeTheme } from '../services/theme';
+import { readStorage, writeStorage } from '../utils/storage';
+
+const STORAGE_KEY = 'glacial-breath:theme';
+
+// The theme belongs to the device; it is applied before paint so there is no flash of the default colours
+export const useThemeSettings = () => {
+  const [theme, setTheme] = useState<ThemeSettings>(() =>
+    sanitizeTheme(readStorage<Partial<ThemeSettings> | null>(STORAGE_KEY, null))
+  );
+
+  useLayoutEffect(() => {
+    applyTheme(theme);
+    writeStorage(STORAGE_KEY, theme);
+  }, [theme]);
+
+  return [theme, setTheme] as const;
+};
@@ -0,0 +1,379 @@
+// English message catalog. This is the reference: every other catalog must match its shape (see Messages).
+
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    add: 'Add',
+    close: 'Close',
+    round: (round: number) => `Round ${round}`,
+    roundShort: (round: number) => `R${round}`,
+    seconds: (seconds: number | string) => `${seconds}s`,
+    approxMinutes: (minutes: number) => `~${minutes}m`,
+  },
+
+  circle: {
+    ready: 'READY',
+    inhale: 'INHALE',
+    exhale: 'EXHALE',
+    hold: 'HOLD',
+    recover: 'RECOVER',
+    rest: 'REST',
+    paused: 'PAUSED',
+  },
+
+  app: {
+    round: 'Round',
+    needToBreathe: 'I NEED TO BREATHE',
+    followTheSound: 'Follow the sound',
+    breatheAtOwnPace: 'Breathe at your own pace',
+    microphoneUnavailable: 'Microphone unavailable. Following the sound instead.',
+    audioUnavailable: 'Sound could not start. The session will run silently.',
+    audioResumeFailed: 'Sound could not resume. Try resuming again.',
+    breathRate: (perMinute: number) => `${perMinute.toFixed(1)} breaths/min`,
+    settleIn: (breath: number, total: number) => `Settle in ${breath}/${total}`,
+    getReady: 'Get ready',
+    tapToSkip: 'Tap to skip',
+    alkalize: 'Alkalize',
+    focus: 'Focus',
+    sessionComplete: 'Session Complete',
+    completeSubtitle: "You've boosted your immune system.",
+    newBest: 'New best',
+    done: 'Done',
+    updateAvailable: 'A new version is available.',
+    reload: 'Reload',
+    mediaStatus: (round: number, total: number, status: string) => `Round ${round}/${total} · ${status}`,
+    aria: {
+      start: 'Start session',
+      stop: 'Stop session (Escape)',
+      pause: 'Pause (P)',
+      resume: 'Resume (P)',
+      exportAudio: 'Export audio',
+      progress: 'Progress',
+      history: 'History',
+      settings: 'Settings',
+    },
+  },
+
+  announcer: {
+    breathing: (round: number, total: number, breaths: number) =>
+      `Round ${round} of ${total}. Breathe with the sound, ${breaths} breaths.`,
+    retention: 'Breathe out and hold. Press Space when you need to breathe.',
+    recovery: (seconds: number) => `Breathe in and hold for ${seconds} seconds.`,
+    rest: (seconds: number) => `Rest for ${seconds} seconds.`,
+    prepare: (seconds: number) => `Get ready. Starting in ${seconds} seconds. Press Space to skip.`,
+    complete: 'Session complete.',
+    lastBreath: 'Last breath.',
+    breathCount: (count: number, total: number) => `Breath ${count} of ${total}.`,
+    held: (duration: string) => `${duration} held.`,
+    paused: 'Paused. Press P to resume.',
+    resumed: 'Resumed.',
+  },
+
+  protocols: {
+    names: {
+      'wim-hof': 'Wim Hof',
+      box: 'Box Breathing',
+      '4-7-8': '4-7-8 Relax',
+      coherent: 'Coherent 5.5 bpm',
+    },
+    steps: {
+      paced: 'Paced breathing',
+      openHold: 'Open hold',
+      timedHold: 'Timed hold',
+      rest: 'Rest',
+    },
+    errors: {
+      name: 'Give the protocol a name',
+      rounds: 'At least one round is required',
+      steps: 'Add at least one step',
+      breathLength: 'Inhale and exhale must be longer than 0s',
+      negativeHold: 'Holds cannot be negative',
+      cycles: 'Paced steps need at least one breath',
+      timedLength: 'Timed steps must be longer than 0s',
+    },
+  },
+
+  settings: {
+    title: 'Settings',
+    editProtocol: 'Edit Protocol',
+    protocol: 'Protocol',
+    newProtocol: 'New',
+    breathsPerRound: 'Breaths per Round',
+    breathingSpeed: 'Breathing Speed',
+    tempoFast: 'Fast',
+    tempoNormal: 'Normal',
+    tempoRelaxed: 'Relaxed',
+    inhaleShare: 'In : Out',
+    inhaleSplit: (inhale: string, exhale: string) => `${inhale} in · ${exhale} out`,
+    rounds: 'Number of Rounds',
+    extraFinalRound: (on: boolean) => `Extra final round: ${on ? 'On' : 'Off'}`,
+    recoveryHold: 'Recovery Hold',
+    voiceCoach: 'Voice Coach',
+    notSupported: 'Not supported on this device',
+    verbosity: {
+      off: 'Off',
+      minimal: 'Minimal',
+      standard: 'Standard',
+      detailed: 'Detailed',
+    },
+    countEvery: 'Count every',
+    holdCallouts: 'Hold call-outs',
+    voiceLanguage: 'Voice language',
+    session: 'Session',
+    prepare: 'Settling in',
+    prepareCountdown: 'Countdown',
+    settleBreaths: 'Slow breaths first',
+    roundRest: 'Rest between rounds',
+    prepareOff: 'Off',
+    autoPause: (on: boolean) => `Pause when in background: ${on ? 'On' : 'Off'}`,
+    confirmSafeEnvironment: (on: boolean) => `Safety check before each session: ${on ? 'On' : 'Off'}`,
+    maxHold: 'Maximum hold',
+    maxHoldHint: 'A chime sounds at this point, then an alarm if nobody responds.',
+    followMicrophone: (on: boolean) => `Count breaths with the microphone: ${on ? 'On' : 'Off'}`,
+    followMicrophoneHint: 'Breathe audibly, in through the nose and out through the mouth. Sound stays on this device.',
+    language: 'Language',
+  },
+
+  roundSchedule: {
+    title: 'Per-Round Schedule',
+    reset: 'Reset',
+    breaths: 'Breaths',
+    tempo: 'Tempo (s)',
+    final: 'Final',
+  },
+
+  mixer: {
+    sound: 'Sound',
+    mute: 'Mute',
+    unmute: 'Unmute',
+    master: 'Master',
+    air: 'Air',
+    drone: 'Drone',
+    bell: 'Bell',
+    reverb: 'Reverb',
+    reverbPresets: {
+      off: 'Dry',
+      room: 'Room',
+      hall: 'Hall',
+      glacier: 'Glacier',
+    },
+    soundscape: 'Soundscape',
+    soundscapes: {
+      none: 'None',
+      wind: 'Glacier Wind',
+      ocean: 'Ocean',
+      rain: 'Rain',
+      drone: 'Low Drone',
+    },
+    binaural: 'Binaural Beat (headphones)',
+    binauralBeats: {
+      off: 'Off',
+      theta: 'Theta 6Hz',
+      alpha: 'Alpha 10Hz',
+    },
+    ambience: 'Ambience',
+  },
+
+  appearance: {
+    title: 'Appearance',
+    themes: {
+      dark: 'Dark',
+      oled: 'OLED Black',
+      light: 'Light',
+      contrast: 'High Contrast',
+    },
+    accents: 'Phase Colours',
+    phases: {
+      breathing: 'Breathing',
+      retention: 'Retention',
+      recovery: 'Recovery',
+      rest: 'Rest',
+    },
+    resetAccents: 'Reset',
+  },
+
+  haptics: {
+    title: 'Haptics',
+    intensity: 'Intensity',
+    off: 'Off',
+    cues: {
+      inhale: 'Inhale',
+      exhale: 'Exhale',
+      retention: 'Retention',
+      recovery: 'Recovery',
+    },
+    patterns: {
+      off: 'Off',
+      tap: 'Tap',
+      rising: 'Rising',
+      fading: 'Fading',
+      heartbeat: 'Heartbeat',
+      countdown: 'Countdown',
+    },
+    pulseEvery: 'Pulse every',
+    silent: (on: boolean) => `Haptics only, no sound: ${on ? 'On' : 'Off'}`,
+  },
+
+  profiles: {
+    title: 'Profile',
+    defaultName: 'Me',
+    namePlaceholder: 'Name',
+    confirmRemove: (name: string) => `Remove ${name}? Their settings and presets will be deleted.`,
+    remove: (name: string) => `Remove ${name}`,
+  },
+
+  presets: {
+    title: 'Presets',
+    savePlaceholder: 'Save current settings as…',
+    apply: (name: string) => `Apply preset ${name}`,
+    delete: (name: string) => `Delete preset ${name}`,
+  },
+
+  editor: {
+    name: 'Name',
+    namePlaceholder: 'My protocol',
+    rounds: 'Rounds',
+    inhale: 'In',
+    hold: 'Hold',
+    exhale: 'Out',
+    breaths: 'Breaths',
+    seconds: 'Seconds',
+    openHoldHint: 'Hold on exhale until you tap to breathe.',
+    moveUp: 'Move step up',
+    moveDown: 'Move step down',
+    removeStep: 'Remove step',
+    deleteProtocol: 'Delete protocol',
+    edit: (name: string) => `Edit ${name}`,
+  },
+
+  history: {
+    title: 'History',
+    empty: 'No sessions yet. Finish a round to see it here.',
+    stopped: 'Stopped',
+    noHolds: 'No completed holds',
+    exportJson: 'JSON',
+    exportCsv: 'CSV',
+    import: 'Import',
+    nothingImported: 'Nothing was imported.',
+    imported: (added: number, skipped: number) =>
+      `Imported ${added} session${added === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} already on this device` : ''}.`,
+    readFailed: 'The file could not be read.',
+    saveFailed: 'The file was read but the sessions could not be saved.',
+    moreErrors: (count: number) => `…and ${count} more`,
+    delete: 'Delete session',
+  },
+
+  historyImport: {
+    notJson: 'This file is not valid JSON.',
+    notExport: 'This is not a Glacial Breath history export.',
+    newerVersion: (version: string) => `Export version ${version} is newer than this app supports. Update the app and try again.`,
+    noSessions: 'The file has no session list.',
+    session: (index: number, problem: string) => `Session ${index}: ${problem}`,
+    problems: {
+      notObject: 'not an object',
+      id: 'missing id',
+      startedAt: 'startedAt must be a timestamp',
+      durationMs: 'durationMs must be a positive number',
+      completed: 'completed must be true or false',
+      settings: 'missing settings',
+      settingsField: (key: string) => `settings.${key} must be a number`,
+      protocolName: 'protocolName must be text',
+      profileId: 'profileId must be text',
+      stats: 'stats must be a list',
+      stat: 'every stat needs a numeric round and retentionTime',
+      heartRate: 'heartRate must be a list of samples with a time, bpm, phase and round',
+    },
+  },
+
+  progress: {
+    title: 'Progress',
+    retentionPerRound: 'Retention per Round',
+    averageOf: (count: number) => `avg of ${count}`,
+    noHolds: 'No holds recorded yet.',
+    bestByRound: 'Best Hold by Round',
+    bestsAfterFirst: 'Personal bests appear after your first round.',
+    longestOverall: 'Longest hold overall',
+    weekly: 'Weekly Practice',
+    minutes: 'minutes',
+  },
+
+  exporter: {
+    title: 'Export Audio',
+    description: (protocol: string) => `Renders a guided ${protocol} session to a WAV file you can play on any device.`,
+    holdTargets: ' Retention holds use the targets below.',
+    roundHold: (round: number) => `Round ${round} hold`,
+    rendering: 'Rendering…',
+    render: 'Render WAV',
+    failed: 'Rendering failed on this device.',
+  },
+
+  resume: {
+    title: 'Session Interrupted',
+    description: (protocol: string, time: string, phase: string, round: number, total: number) =>
+      `Your ${protocol} session stopped at ${time} during the ${phase} of round ${round} of ${total}.`,
+    phases: {
+      breathing: 'breathing',
+      retention: 'retention hold',
+      recovery: 'recovery hold',
+      rest: 'rest',
+      other: 'session',
+    },
+    resumeRound: (round: number) => `Resume Round ${round}`,
+    saveCompleted: 'Save Completed Rounds',
+    discard: 'Discard',
+  },
+
+  heartRate: {
+    title: 'Heart rate monitor',
+    connect: 'Connect chest strap',
+    connecting: 'Connecting…',
+    disconnect: 'Disconnect',
+    simulate: 'Use simulated strap',
+    failed: "Couldn't connect. Check the strap is on, charged and nearby.",
+    hint: 'Works with Bluetooth straps that use the standard heart-rate service. Readings are saved with each session.',
+    unnamed: 'Heart-rate sensor',
+    bpm: 'bpm',
+    bpmLabel: (bpm: number) => `Heart rate ${bpm} beats per minute`,
+    noContact: 'Heart rate: no skin contact',
+    range: (min: number, max: number) => `${min}–${max} bpm`,
+  },
+
+  safety: {
+    title: 'Before You Begin',
+    warnings: [
+      'This breathing method can make you faint. Never practise in or near water, while driving, or anywhere a fall could hurt you.',
+      'Always sit or lie down. Tingling and light-headedness are common; stop if you feel pain or unwell.',
+      'Do not practise if you are pregnant, or have epilepsy, heart problems, high blood pressure or a history of fainting, without medical advice.',
+      'This app is not medical advice and does not replace supervision.',
+    ],
+    understand: 'I have read and understand these warnings.',
+    accept: 'I Understand',
+    environmentTitle: 'Safe to Practise?',
+    environment: "I'm not in or near water, not driving, and I'm sitting or lying down.",
+    begin: 'Begin',
+    alarmTitle: 'Are you OK?',
+    alarmBody: (time: string) => `You've been holding for ${time}. Breathe in.`,
+    imOk: "I'M OK",
+    chimeAnnouncement: 'Maximum hold reached. Breathe when you are ready.',
+    alarmAnnouncement: 'Alarm: the hold is far past its maximum. Breathe in and press Space.',
+    maxHoldReached: 'Max hold',
+  },
+
+  calibration: {
+    title: 'Find Your Pace',
+    open: 'Tap to find my pace',
+    intro: 'Breathe naturally. Tap as each breath in starts, and again as each breath out starts.',
+    tapInhale: 'IN',
+    tapExhale: 'OUT',
+    progress: (breath: number, total: number) => `Breath ${breath}/${total}`,
+    tempo: 'Per breath',
+    inhale: 'In',
+    exhale: 'Out',
+    failed: "Those taps didn't make a steady rhythm. Try again.",
+    retry: 'Retry',
+    apply: 'Use this pace',
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,377 @@
+// Simplified Chinese message catalog
+
+import { Messages } from './en';
+
+export const zhCN: Messages = {
+  common: {
+    cancel: '取消',
+    save: '保存',
+    add: '添加',
+    close: '关闭',
+    round: (round) => `第 ${round} 轮`,
+    roundShort: (round) => `第${round}轮`,
+    seconds: (seconds) => `${seconds}秒`,
+    approxMinutes: (minutes) => `约${minutes}分钟`,
+  },
+
+  circle: {
+    ready: '准备',
+    inhale: '吸气',
+    exhale: '呼气',
+    hold: '屏息',
+    recover: '恢复',
+    rest: '休息',
+    paused: '已暂停',
+  },
+
+  app: {
+    round: '轮次',
+    needToBreathe: '我需要呼吸',
+    followTheSound: '跟随声音呼吸',
+    breatheAtOwnPace: '按自己的节奏呼吸',
+    microphoneUnavailable: '无法使用麦克风，改为跟随声音。',
+    audioUnavailable: '无法启动声音，本次练习将静音进行。',
+    audioResumeFailed: '无法恢复声音，请再次点击继续。',
+    breathRate: (perMinute) => `每分钟 ${perMinute.toFixed(1)} 次呼吸`,
+    settleIn: (breath, total) => `放松 ${breath}/${total}`,
+    getReady: '准备',
+    tapToSkip: '轻触跳过',
+    alkalize: '碱化',
+    focus: '专注',
+    sessionComplete: '练习完成',
+    completeSubtitle: '你的免疫系统得到了提升。',
+    newBest: '新纪录',
+    done: '完成',
+    updateAvailable: '有新版本可用。',
+    reload: '重新加载',
+    mediaStatus: (round, total, status) => `第 ${round}/${total} 轮 · ${status}`,
+    aria: {
+      start: '开始练习',
+      stop: '停止练习（Esc）',
+      pause: '暂停（P）',
+      resume: '继续（P）',
+      exportAudio: '导出音频',
+      progress: '进度',
+      history: '历史记录',
+      settings: '设置',
+    },
+  },
+
+  announcer: {
+    breathing: (round, total, breaths) => `第 ${round} 轮，共 ${total} 轮。跟随声音呼吸 ${breaths} 次。`,
+    retention: '呼气并屏息。需要呼吸时请按空格键。',
+    recovery: (seconds) => `吸气并屏息 ${seconds} 秒。`,
+    rest: (seconds) => `休息 ${seconds} 秒。`,
+    prepare: (seconds) => `准备开始，${seconds} 秒后开始。按空格键跳过。`,
+    complete: '练习完成。',
+    lastBreath: '最后一次呼吸。',
+    breathCount: (count, total) => `第 ${count} 次呼吸，共 ${total} 次。`,
+    held: (duration) => `已屏息 ${duration}。`,
+    paused: '已暂停。按 P 键继续。',
+    resumed: '已继续。',
+  },
+
+  protocols: {
+    names: {
+      'wim-hof': '维姆·霍夫呼吸法',
+      box: '箱式呼吸',
+      '4-7-8': '4-7-8 放松呼吸',
+      coherent: '共振呼吸 每分钟5.5次',
+    },
+    steps: {
+      paced: '节律呼吸',
+      openHold: '自由屏息',
+      timedHold: '定时屏息',
+      rest: '休息',
+    },
+    errors: {
+      name: '请为呼吸方案命名',
+      rounds: '至少需要一轮',
+      steps: '请至少添加一个步骤',
+      breathLength: '吸气和呼气时长必须大于 0 秒',
+      negativeHold: '屏息时长不能为负数',
+      cycles: '节律呼吸至少需要一次呼吸',
+      timedLength: '定时步骤的时长必须大于 0 秒',
+    },
+  },
+
+  settings: {
+    title: '设置',
+    editProtocol: '编辑呼吸方案',
+    protocol: '呼吸方案',
+    newProtocol: '新建',
+    breathsPerRound: '每轮呼吸次数',
+    breathingSpeed: '呼吸速度',
+    tempoFast: '快',
+    tempoNormal: '正常',
+    tempoRelaxed: '舒缓',
+    inhaleShare: '吸 : 呼',
+    inhaleSplit: (inhale, exhale) => `吸 ${inhale} · 呼 ${exhale}`,
+    rounds: '轮数',
+    extraFinalRound: (on) => `额外最终轮：${on ? '开' : '关'}`,
+    recoveryHold: '恢复屏息',
+    voiceCoach: '语音教练',
+    notSupported: '此设备不支持',
+    verbosity: {
+      off: '关闭',
+      minimal: '精简',
+      standard: '标准',
+      detailed: '详细',
+    },
+    countEvery: '报数间隔',
+    holdCallouts: '屏息报时',
+    voiceLanguage: '语音语言',
+    session: '练习',
+    prepare: '准备阶段',
+    prepareCountdown: '倒计时',
+    settleBreaths: '先慢呼吸',
+    roundRest: '轮间休息',
+    prepareOff: '关',
+    autoPause: (on) => `切到后台时暂停：${on ? '开' : '关'}`,
+    confirmSafeEnvironment: (on: boolean) => `每次练习前安全确认：${on ? '开' : '关'}`,
+    maxHold: '最长屏息',
+    maxHoldHint: '到达此时长会响起提示音，无人响应时将发出警报。',
+    followMicrophone: (on) => `用麦克风计数呼吸：${on ? '开' : '关'}`,
+    followMicrophoneHint: '呼吸时请发出声音，用鼻子吸气、用嘴呼气。声音不会离开本设备。',
+    language: '界面语言',
+  },
+
+  roundSchedule: {
+    title: '每轮安排',
+    reset: '重置',
+    breaths: '呼吸次数',
+    tempo: '节奏（秒）',
+    final: '最终',
+  },
+
+  mixer: {
+    sound: '声音',
+    mute: '静音',
+    unmute: '取消静音',
+    master: '总音量',
+    air: '气息声',
+    drone: '持续音',
+    bell: '铃声',
+    reverb: '混响',
+    reverbPresets: {
+      off: '干声',
+      room: '房间',
+      hall: '大厅',
+      glacier: '冰川',
+    },
+    soundscape: '环境音',
+    soundscapes: {
+      none: '无',
+      wind: '冰川之风',
+      ocean: '海洋',
+      rain: '雨声',
+      drone: '低频持续音',
+    },
+    binaural: '双耳节拍（需耳机）',
+    binauralBeats: {
+      off: '关闭',
+      theta: 'θ 波 6Hz',
+      alpha: 'α 波 10Hz',
+    },
+    ambience: '环境音量',
+  },
+
+  appearance: {
+    title: '外观',
+    themes: {
+      dark: '深色',
+      oled: 'OLED 纯黑',
+      light: '浅色',
+      contrast: '高对比度',
+    },
+    accents: '阶段颜色',
+    phases: {
+      breathing: '呼吸',
+      retention: '屏息',
+      recovery: '恢复',
+      rest: '休息',
+    },
+    resetAccents: '重置',
+  },
+
+  haptics: {
+    title: '振动反馈',
+    intensity: '强度',
+    off: '关闭',
+    cues: {
+      inhale: '吸气',
+      exhale: '呼气',
+      retention: '屏息',
+      recovery: '恢复',
+    },
+    patterns: {
+      off: '关闭',
+      tap: '轻触',
+      rising: '渐强',
+      fading: '渐弱',
+      heartbeat: '心跳',
+      countdown: '倒数',
+    },
+    pulseEvery: '振动间隔',
+    silent: (on) => `仅振动，无声音：${on ? '开' : '关'}`,
+  },
+
+  profiles: {
+    title: '用户',
+    defaultName: '我',
+    namePlaceholder: '名字',
+    confirmRemove: (name) => `要删除“${name}”吗？其设置和预设将被删除。`,
+    remove: (name) => `删除“${name}”`,
+  },
+
+  presets: {
+    title: '预设',
+    savePlaceholder: '将当前设置保存为…',
+    apply: (name) => `应用预设“${name}”`,
+    delete: (name) => `删除预设“${name}”`,
+  },
+
+  editor: {
+    name: '名称',
+    namePlaceholder: '我的方案',
+    rounds: '轮数',
+    inhale: '吸',
+    hold: '屏',
+    exhale: '呼',
+    breaths: '次数',
+    seconds: '秒数',
+    openHoldHint: '呼气后屏息，直到你点击按钮恢复呼吸。',
+    moveUp: '上移步骤',
+    moveDown: '下移步骤',
+    removeStep: '删除步骤',
+    deleteProtocol: '删除方案',
+    edit: (name) => `编辑“${name}”`,
+  },
+
+  history: {
+    title: '历史记录',
+    empty: '还没有练习记录。完成一轮后会显示在这里。',
+    stopped: '已中止',
+    noHolds: '没有完成的屏息',
+    exportJson: 'JSON',
+    exportCsv: 'CSV',
+    import: '导入',
+    nothingImported: '没有导入任何内容。',
+    imported: (added, skipped) => `已导入 ${added} 条练习记录${skipped > 0 ? `，${skipped} 条已存在于此设备` : ''}。`,
+    readFailed: '无法读取此文件。',
+    saveFailed: '文件已读取，但练习记录无法保存。',
+    moreErrors: (count) => `……还有 ${count} 条`,
+    delete: '删除记录',
+  },
+
+  historyImport: {
+    notJson: '此文件不是有效的 JSON。',
+    notExport: '此文件不是 Glacial Breath 的历史记录导出文件。',
+    newerVersion: (version) => `导出文件版本 ${version} 比当前应用支持的版本新。请更新应用后重试。`,
+    noSessions: '文件中没有练习记录列表。',
+    session: (index, problem) => `第 ${index} 条记录：${problem}`,
+    problems: {
+      notObject: '不是对象',
+      id: '缺少 id',
+      startedAt: 'startedAt 必须是时间戳',
+      durationMs: 'durationMs 必须是正数',
+      completed: 'completed 必须是 true 或 false',
+      settings: '缺少 settings',
+      settingsField: (key) => `settings.${key} 必须是数字`,
+      protocolName: 'protocolName 必须是文本',
+      profileId: 'profileId 必须是文本',
+      stats: 'stats 必须是列表',
+      stat: '每条 stat 都需要数字类型的 round 和 retentionTime',
+      heartRate: 'heartRate 必须是包含时间、心率、阶段和轮次的采样列表',
+    },
+  },
+
+  progress: {
+    title: '进度',
+    retentionPerRound: '每轮屏息时长',
+    averageOf: (count) => `${count} 次平均`,
+    noHolds: '还没有屏息记录。',
+    bestByRound: '各轮最佳屏息',
+    bestsAfterFirst: '完成第一轮后会显示个人最佳。',
+    longestOverall: '最长屏息纪录',
+    weekly: '每周练习',
+    minutes: '分钟',
+  },
+
+  exporter: {
+    title: '导出音频',
+    description: (protocol) => `将带引导的${protocol}练习渲染为 WAV 文件，可在任何设备上播放。`,
+    holdTargets: '屏息时长使用下方的目标值。',
+    roundHold: (round) => `第 ${round} 轮屏息`,
+    rendering: '正在渲染…',
+    render: '渲染 WAV',
+    failed: '此设备渲染失败。',
+  },
+
+  resume: {
+    title: '练习被中断',
+    description: (protocol, time, phase, round, total) =>
+      `你的${protocol}练习于 ${time} 中断，当时处于第 ${round} 轮（共 ${total} 轮）的${phase}阶段。`,
+    phases: {
+      breathing: '呼吸',
+      retention: '屏息',
+      recovery: '恢复屏息',
+      rest: '休息',
+      other: '练习',
+    },
+    resumeRound: (round) => `继续第 ${round} 轮`,
+    saveCompleted: '保存已完成的轮次',
+    discard: '放弃',
+  },
+
+  heartRate: {
+    title: '心率监测',
+    connect: '连接胸带',
+    connecting: '正在连接…',
+    disconnect: '断开',
+    simulate: '使用模拟胸带',
+    failed: '无法连接。请确认胸带已佩戴、有电并在附近。',
+    hint: '支持使用标准心率服务的蓝牙胸带。读数会随每次练习保存。',
+    unnamed: '心率传感器',
+    bpm: '次/分',
+    bpmLabel: (bpm) => `心率每分钟 ${bpm} 次`,
+    noContact: '心率：未接触皮肤',
+    range: (min, max) => `${min}–${max} 次/分`,
+  },
+
+  safety: {
+    title: '开始之前',
+    warnings: [
+      '这种呼吸法可能导致昏厥。切勿在水中或水边、驾驶时，或任何摔倒可能受伤的地方练习。',
+      '请始终坐着或躺着练习。手脚发麻和头晕较常见；如感到疼痛或不适，请立即停止。',
+      '如您怀孕，或患有癫痫、心脏疾病、高血压或有昏厥史，请在咨询医生后再练习。',
+      '本应用不构成医疗建议，也不能替代他人看护。',
+    ],
+    understand: '我已阅读并理解以上警告。',
+    accept: '我已了解',
+    environmentTitle: '可以安全练习吗？',
+    environment: '我不在水中或水边，没有在驾驶，并且正坐着或躺着。',
+    begin: '开始',
+    alarmTitle: '你还好吗？',
+    alarmBody: (time: string) => `你已屏息 ${time}。请吸气。`,
+    imOk: '我没事',
+    chimeAnnouncement: '已到达最长屏息时间。准备好后请呼吸。',
+    alarmAnnouncement: '警报：屏息已远超上限。请吸气并按空格键。',
+    maxHoldReached: '超出上限',
+  },
+
+  calibration: {
+    title: '找到你的节奏',
+    open: '轻触测出我的节奏',
+    intro: '自然呼吸。每次开始吸气时轻触一下，开始呼气时再轻触一下。',
+    tapInhale: '吸',
+    tapExhale: '呼',
+    progress: (breath, total) => `第 ${breath}/${total} 次呼吸`,
+    tempo: '每次呼吸',
+    inhale: '吸气',
+    exhale: '呼气',
+    failed: '这些轻触没有形成稳定的节奏，请重试。',
+    retry: '重试',
+    apply: '使用此节奏',
+  },
+};
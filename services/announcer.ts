@@ -0,0 +1,53 @@
+// Screen-reader announcements for Glacial Breath
+// Turns engine events into short sentences for an ARIA live region; kept sparse so it doesn't talk over the breath
+
+import { SessionPhase } from '../types';
+import { SessionEvent, SessionState } from './sessionEngine';
+import { formatDuration, getMessages } from './i18n';
+
+const COUNT_EVERY = 10; // breaths
+const HOLD_EVERY_S = 30;
+
+export const describeEvent = (event: SessionEvent, state: SessionState): string | null => {
+  const t = getMessages().announcer;
+  switch (event.type) {
+    case 'phase':
+      switch (event.phase) {
+        case SessionPhase.PREPARE:
+          return t.prepare(Math.round(state.phaseDurationMs / 1000));
+        case SessionPhase.BREATHING:
+          return t.breathing(state.round, state.totalRounds, state.breathTarget);
+        case SessionPhase.RETENTION:
+          return t.retention;
+        case SessionPhase.RECOVERY:
+          return t.recovery(Math.round(state.phaseDurationMs / 1000));
+        case SessionPhase.REST:
+          return t.rest(Math.round(state.phaseDurationMs / 1000));
+        case SessionPhase.COMPLETED:
+          return t.complete;
+        default:
+          return null;
+      }
+
+    case 'inhale':
+      if (state.phase !== SessionPhase.BREATHING) return null;
+      if (state.breathCount === state.breathTarget) return t.lastBreath;
+      return state.breathCount % COUNT_EVERY === 0 ? t.breathCount(state.breathCount, state.breathTarget) : null;
+
+    case 'tick': {
+      if (state.phase !== SessionPhase.RETENTION) return null;
+      // Ticks land on exact tenths of a second, so this matches once per milestone
+      const tenths = Math.round(event.elapsed * 10);
+      return tenths > 0 && tenths % (HOLD_EVERY_S * 10) === 0 ? t.held(formatDuration(event.elapsed)) : null;
+    }
+
+    case 'pause':
+      return t.paused;
+
+    case 'resume':
+      return t.resumed;
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIXER_SETTINGS } from '../types';
+import { sanitizeMixerSettings } from './audio';
+
+describe('sanitizeMixerSettings', () => {
+  it('keeps valid settings as they are', () => {
+    const settings = { ...DEFAULT_MIXER_SETTINGS, masterVolume: 0.4, muted: true, reverb: 'glacier', soundscape: 'rain', binauralBeat: 'theta' };
+    expect(sanitizeMixerSettings(settings)).toEqual(settings);
+  });
+
+  it('fills in missing fields and ignores anything that is not an object', () => {
+    expect(sanitizeMixerSettings({ airLevel: 0.5 })).toEqual({ ...DEFAULT_MIXER_SETTINGS, airLevel: 0.5 });
+    expect(sanitizeMixerSettings(null)).toEqual(DEFAULT_MIXER_SETTINGS);
+    expect(sanitizeMixerSettings('loud')).toEqual(DEFAULT_MIXER_SETTINGS);
+  });
+
+  it('pulls levels into 0..1 and drops ones that are not numbers', () => {
+    const settings = sanitizeMixerSettings({ masterVolume: 3, droneLevel: -1, bellLevel: NaN, reverbMix: '0.5', muted: 'yes' });
+    expect(settings).toMatchObject({ masterVolume: 1, droneLevel: 0, bellLevel: 1, reverbMix: 0.3, muted: false });
+  });
+
+  it('falls back to the defaults for unknown options', () => {
+    const settings = sanitizeMixerSettings({ reverb: 'cathedral', soundscape: 'forest', binauralBeat: 'delta' });
+    expect(settings).toMatchObject({ reverb: 'off', soundscape: 'none', binauralBeat: 'off' });
+  });
+});
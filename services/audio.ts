@@ -2,8 +2,44 @@
 // Audio engine for Glacial Breath
 // Uses Web Audio API to generate organic breathing sounds without external assets
 
+import { Clock } from './sessionEngine';
+import { clamp, oneOf } from './settings';
+import { BINAURAL_BEATS, DEFAULT_MIXER_SETTINGS, HoldAlarmLevel, MixerSettings, ReverbPreset, SOUNDSCAPE_IDS } from '../types';
+
+// The lookahead pump runs every PUMP_INTERVAL_MS and fires anything due within LOOKAHEAD_MS,
+// so cues are queued on the audio timeline before they are needed
+const LOOKAHEAD_MS = 120;
+const PUMP_INTERVAL_MS = 25;
+
+const DUCKED_GAIN = 0.3;
+const DUCK_RAMP_S = 0.15;
+const LEVEL_SMOOTHING_S = 0.05;
+
+// Generated impulse responses: length of the tail and how fast it dies away
+const REVERB_PRESETS: Record<Exclude<ReverbPreset, 'off'>, { seconds: number; decay: number }> = {
+  room: { seconds: 0.8, decay: 3.5 },
+  hall: { seconds: 2.5, decay: 2.5 },
+  glacier: { seconds: 5, decay: 1.6 },
+};
+
+// Layers -> duck (breath layers only) -> mix -> dry + reverb -> master -> speakers
+export interface MixerBus {
+  air: GainNode;
+  drone: GainNode;
+  bell: GainNode;
+  ambience: GainNode;
+  duck: GainNode;
+  convolver: ConvolverNode;
+  wet: GainNode;
+  master: GainNode;
+  loadedReverb: ReverbPreset;
+}
+
 let audioCtx: AudioContext | null = null;
-let noiseBuffer: AudioBuffer | null = null;
+let mixer: MixerBus | null = null;
+let mixerSettings: MixerSettings = DEFAULT_MIXER_SETTINGS;
+// Keyed by context so offline renders get buffers at their own sample rate
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
 
 // Initialize or resume the AudioContext
 export const initAudio = async () => {
@@ -17,36 +53,158 @@ export const initAudio = async () => {
   return audioCtx;
 };
 
+// Drops a context that failed to start, so the session clock falls back to the page clock and cues stay silent
+export const releaseAudio = () => {
+  audioCtx?.close().catch(() => {});
+  audioCtx = null;
+  mixer = null;
+};
+
+// Freezes everything on the audio timeline (queued cues, soundscapes and the audio clock) until initAudio runs again
+export const suspendAudio = async () => {
+  if (audioCtx?.state === 'running') {
+    await audioCtx.suspend();
+  }
+};
+
+// Exponentially decaying stereo noise, a cheap stand-in for a recorded space
+const createImpulseResponse = (ctx: BaseAudioContext, seconds: number, decay: number) => {
+  const length = Math.floor(ctx.sampleRate * seconds);
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+    }
+  }
+  return buffer;
+};
+
+const setLevel = (param: AudioParam, value: number, ctx: BaseAudioContext) => {
+  param.setTargetAtTime(value, ctx.currentTime, LEVEL_SMOOTHING_S);
+};
+
+const level = (value: unknown, fallback: number) => clamp(value, { min: 0, max: 1 }, fallback);
+
+// Stored mixer settings may be stale or corrupt: levels are pulled into 0..1 and unknown options fall back to the defaults
+export const sanitizeMixerSettings = (value: unknown): MixerSettings => {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<MixerSettings>;
+  const defaults = DEFAULT_MIXER_SETTINGS;
+  return {
+    masterVolume: level(input.masterVolume, defaults.masterVolume),
+    muted: typeof input.muted === 'boolean' ? input.muted : defaults.muted,
+    airLevel: level(input.airLevel, defaults.airLevel),
+    droneLevel: level(input.droneLevel, defaults.droneLevel),
+    bellLevel: level(input.bellLevel, defaults.bellLevel),
+    ambienceLevel: level(input.ambienceLevel, defaults.ambienceLevel),
+    reverb: oneOf(input.reverb, ['off', ...(Object.keys(REVERB_PRESETS) as ReverbPreset[])], defaults.reverb),
+    reverbMix: level(input.reverbMix, defaults.reverbMix),
+    soundscape: oneOf(input.soundscape, SOUNDSCAPE_IDS, defaults.soundscape),
+    binauralBeat: oneOf(input.binauralBeat, BINAURAL_BEATS, defaults.binauralBeat),
+  };
+};
+
+export const applyMixerSettings = (ctx: BaseAudioContext, bus: MixerBus, settings: MixerSettings) => {
+  setLevel(bus.master.gain, settings.muted ? 0 : settings.masterVolume, ctx);
+  setLevel(bus.air.gain, settings.airLevel, ctx);
+  setLevel(bus.drone.gain, settings.droneLevel, ctx);
+  setLevel(bus.bell.gain, settings.bellLevel, ctx);
+  setLevel(bus.ambience.gain, settings.ambienceLevel, ctx);
+  setLevel(bus.wet.gain, settings.reverb === 'off' ? 0 : settings.reverbMix, ctx);
+
+  if (settings.reverb !== 'off' && settings.reverb !== bus.loadedReverb) {
+    const preset = REVERB_PRESETS[settings.reverb];
+    bus.convolver.buffer = createImpulseResponse(ctx, preset.seconds, preset.decay);
+    bus.loadedReverb = settings.reverb;
+  }
+};
+
+export const createMixerBus = (ctx: BaseAudioContext): MixerBus => {
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+
+  const mix = ctx.createGain();
+  mix.connect(master);
+
+  const convolver = ctx.createConvolver();
+  const wet = ctx.createGain();
+  mix.connect(convolver).connect(wet).connect(master);
+
+  // Inhale/exhale layers share a duck stage so they can dip under the voice coach
+  const duck = ctx.createGain();
+  duck.connect(mix);
+
+  const air = ctx.createGain();
+  air.connect(duck);
+  const drone = ctx.createGain();
+  drone.connect(duck);
+  const bell = ctx.createGain();
+  bell.connect(mix);
+  const ambience = ctx.createGain();
+  ambience.connect(mix);
+
+  return { air, drone, bell, ambience, duck, convolver, wet, master, loadedReverb: 'off' };
+};
+
+const getMixer = (ctx: AudioContext) => {
+  if (mixer) return mixer;
+  mixer = createMixerBus(ctx);
+  applyMixerSettings(ctx, mixer, mixerSettings);
+  return mixer;
+};
+
+export const setMixerSettings = (settings: MixerSettings) => {
+  mixerSettings = settings;
+  if (audioCtx) applyMixerSettings(audioCtx, getMixer(audioCtx), mixerSettings);
+};
+
+export const duckBreath = (ducked: boolean) => {
+  if (!audioCtx) return;
+  const gain = getMixer(audioCtx).duck.gain;
+  const t = audioCtx.currentTime;
+  gain.cancelScheduledValues(t);
+  gain.setValueAtTime(gain.value, t);
+  gain.linearRampToValueAtTime(ducked ? DUCKED_GAIN : 1, t + DUCK_RAMP_S);
+};
+
+export const getAudioContext = () => audioCtx;
+
+// Soundscapes connect here; the mixer's ambience level sits after it
+export const getAmbienceInput = (ctx: AudioContext) => getMixer(ctx).ambience;
+
 // Create a buffer of white noise to be used as a source for wind/breath sounds
-const getNoiseBuffer = (ctx: AudioContext) => {
-  if (noiseBuffer) return noiseBuffer;
+const getNoiseBuffer = (ctx: BaseAudioContext) => {
+  const cached = noiseBuffers.get(ctx);
+  if (cached) return cached;
   const bufferSize = ctx.sampleRate * 2; // 2 seconds is enough to loop
   const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
   const output = buffer.getChannelData(0);
   for (let i = 0; i < bufferSize; i++) {
     output[i] = Math.random() * 2 - 1;
   }
-  noiseBuffer = buffer;
+  noiseBuffers.set(ctx, buffer);
   return buffer;
 };
 
-export const playInhale = (durationMs: number) => {
-  if (!audioCtx) return;
-  const t = audioCtx.currentTime;
+// Cue start time in AudioContext seconds; never in the past
+const startTime = (ctx: AudioContext, when?: number) => Math.max(ctx.currentTime, when ?? 0);
+
+// The synth* functions render a cue into any context (live or offline) starting at `t` seconds
+export const synthInhale = (ctx: BaseAudioContext, bus: MixerBus, t: number, durationMs: number) => {
   const dur = durationMs / 1000;
 
   // 1. Air Sound (Filtered Noise) - "Filling up"
-  const noise = audioCtx.createBufferSource();
-  noise.buffer = getNoiseBuffer(audioCtx);
+  const noise = ctx.createBufferSource();
+  noise.buffer = getNoiseBuffer(ctx);
   noise.loop = true;
   
-  const noiseFilter = audioCtx.createBiquadFilter();
+  const noiseFilter = ctx.createBiquadFilter();
   noiseFilter.type = 'lowpass';
   noiseFilter.Q.value = 0.5; // Smooth filter
   
-  const noiseGain = audioCtx.createGain();
+  const noiseGain = ctx.createGain();
   
-  noise.connect(noiseFilter).connect(noiseGain).connect(audioCtx.destination);
+  noise.connect(noiseFilter).connect(noiseGain).connect(bus.air);
   
   // Filter Automation: Opens up to simulate air rushing in
   noiseFilter.frequency.setValueAtTime(100, t);
@@ -62,13 +220,13 @@ export const playInhale = (durationMs: number) => {
   noise.stop(t + dur + 0.1);
 
   // 2. Tonal Guide (Subtle rising drone) - adds a musical "lift"
-  const osc = audioCtx.createOscillator();
+  const osc = ctx.createOscillator();
   osc.type = 'sine';
   osc.frequency.setValueAtTime(146.83, t); // D3
   osc.frequency.linearRampToValueAtTime(164.81, t + dur); // E3 (Lift)
   
-  const oscGain = audioCtx.createGain();
-  osc.connect(oscGain).connect(audioCtx.destination);
+  const oscGain = ctx.createGain();
+  osc.connect(oscGain).connect(bus.drone);
   
   oscGain.gain.setValueAtTime(0, t);
   oscGain.gain.linearRampToValueAtTime(0.08, t + dur * 0.5);
@@ -78,23 +236,21 @@ export const playInhale = (durationMs: number) => {
   osc.stop(t + dur + 0.1);
 };
 
-export const playExhale = (durationMs: number) => {
-  if (!audioCtx) return;
-  const t = audioCtx.currentTime;
+export const synthExhale = (ctx: BaseAudioContext, bus: MixerBus, t: number, durationMs: number) => {
   const dur = durationMs / 1000;
 
   // 1. Air Sound - "Releasing"
-  const noise = audioCtx.createBufferSource();
-  noise.buffer = getNoiseBuffer(audioCtx);
+  const noise = ctx.createBufferSource();
+  noise.buffer = getNoiseBuffer(ctx);
   noise.loop = true;
   
-  const noiseFilter = audioCtx.createBiquadFilter();
+  const noiseFilter = ctx.createBiquadFilter();
   noiseFilter.type = 'lowpass';
   noiseFilter.Q.value = 0.5;
   
-  const noiseGain = audioCtx.createGain();
+  const noiseGain = ctx.createGain();
   
-  noise.connect(noiseFilter).connect(noiseGain).connect(audioCtx.destination);
+  noise.connect(noiseFilter).connect(noiseGain).connect(bus.air);
   
   // Filter Automation: Closes down
   noiseFilter.frequency.setValueAtTime(1500, t);
@@ -108,13 +264,13 @@ export const playExhale = (durationMs: number) => {
   noise.stop(t + dur + 0.1);
   
   // 2. Tonal Guide (Subtle falling drone)
-  const osc = audioCtx.createOscillator();
+  const osc = ctx.createOscillator();
   osc.type = 'sine';
   osc.frequency.setValueAtTime(164.81, t); // E3
   osc.frequency.linearRampToValueAtTime(146.83, t + dur); // D3 (Fall)
   
-  const oscGain = audioCtx.createGain();
-  osc.connect(oscGain).connect(audioCtx.destination);
+  const oscGain = ctx.createGain();
+  osc.connect(oscGain).connect(bus.drone);
   
   oscGain.gain.setValueAtTime(0.08, t);
   oscGain.gain.linearRampToValueAtTime(0, t + dur);
@@ -123,35 +279,141 @@ export const playExhale = (durationMs: number) => {
   osc.stop(t + dur + 0.1);
 };
 
-export const playBell = () => {
-    if (!audioCtx) return;
-    const t = audioCtx.currentTime;
+export const synthBell = (ctx: BaseAudioContext, bus: MixerBus, t: number) => {
     
     // Soft Bell Tone
-    const osc = audioCtx.createOscillator();
+    const osc = ctx.createOscillator();
     osc.type = 'sine';
     osc.frequency.setValueAtTime(523.25, t); // C5
     
-    const gain = audioCtx.createGain();
+    const gain = ctx.createGain();
     gain.gain.setValueAtTime(0, t);
     gain.gain.linearRampToValueAtTime(0.2, t + 0.05); // Fast attack
     gain.gain.exponentialRampToValueAtTime(0.001, t + 3.0); // Long decay
     
-    osc.connect(gain).connect(audioCtx.destination);
+    osc.connect(gain).connect(bus.bell);
     osc.start(t);
     osc.stop(t + 3.5);
     
     // Optional harmonic for richness
-    const osc2 = audioCtx.createOscillator();
+    const osc2 = ctx.createOscillator();
     osc2.type = 'sine';
     osc2.frequency.setValueAtTime(1046.50, t); // C6
     
-    const gain2 = audioCtx.createGain();
+    const gain2 = ctx.createGain();
     gain2.gain.setValueAtTime(0, t);
     gain2.gain.linearRampToValueAtTime(0.05, t + 0.05);
     gain2.gain.exponentialRampToValueAtTime(0.001, t + 2.0);
     
-    osc2.connect(gain2).connect(audioCtx.destination);
+    osc2.connect(gain2).connect(bus.bell);
     osc2.start(t);
     osc2.stop(t + 2.5);
 };
+
+// Short lead-in blip for the PREPARE countdown; rides the bell level
+export const synthPip = (ctx: BaseAudioContext, bus: MixerBus, t: number) => {
+    const osc = ctx.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(783.99, t); // G5
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.12, t + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+
+    osc.connect(gain).connect(bus.bell);
+    osc.start(t);
+    osc.stop(t + 0.3);
+};
+
+export const playInhale = (durationMs: number, when?: number) => {
+  if (!audioCtx) return;
+  synthInhale(audioCtx, getMixer(audioCtx), startTime(audioCtx, when), durationMs);
+};
+
+export const playExhale = (durationMs: number, when?: number) => {
+  if (!audioCtx) return;
+  synthExhale(audioCtx, getMixer(audioCtx), startTime(audioCtx, when), durationMs);
+};
+
+export const playBell = (when?: number) => {
+  if (!audioCtx) return;
+  synthBell(audioCtx, getMixer(audioCtx), startTime(audioCtx, when));
+};
+
+export const playPip = (when?: number) => {
+  if (!audioCtx) return;
+  synthPip(audioCtx, getMixer(audioCtx), startTime(audioCtx, when));
+};
+
+// Max-hold warnings go straight to the speakers: mute and the mixer levels must not be able to hide them.
+// The chime is two soft rising tones; the alarm is a harsh, repeating triple beep.
+export const playAlarm = (level: HoldAlarmLevel) => {
+  if (!audioCtx) return;
+  const ctx = audioCtx;
+  // The alarm also sounds over a paused session, whose audio is suspended; the beeps start once it resumes
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  const t = ctx.currentTime;
+  const beeps = level === 'chime'
+    ? [{ offset: 0, freq: 659.25 }, { offset: 0.35, freq: 880 }] // E5, A5
+    : [0, 0.3, 0.6].map(offset => ({ offset, freq: 1318.51 })); // E6
+
+  beeps.forEach(({ offset, freq }) => {
+    const osc = ctx.createOscillator();
+    osc.type = level === 'chime' ? 'sine' : 'square';
+    osc.frequency.setValueAtTime(freq, t + offset);
+
+    const gain = ctx.createGain();
+    const peak = level === 'chime' ? 0.3 : 0.25;
+    const length = level === 'chime' ? 0.8 : 0.2;
+    gain.gain.setValueAtTime(0, t + offset);
+    gain.gain.linearRampToValueAtTime(peak, t + offset + 0.02);
+    gain.gain.setValueAtTime(peak, t + offset + length * 0.5);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + offset + length);
+
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t + offset);
+    osc.stop(t + offset + length + 0.05);
+  });
+};
+
+// Milliseconds on the AudioContext timeline (falls back to the page clock before initAudio)
+const audioNow = () => (audioCtx ? audioCtx.currentTime * 1000 : performance.now());
+
+// A session Clock that fires timers slightly ahead of time against the audio hardware clock.
+// Callbacks receive control early, so anything they play must be scheduled for the due time.
+export const createAudioClock = (): Clock => {
+  const pending = new Map<number, { due: number; callback: () => void }>();
+  let nextId = 1;
+  let pumpId: number | null = null;
+
+  const pump = () => {
+    const horizon = audioNow() + LOOKAHEAD_MS;
+    [...pending.entries()]
+      .filter(([, timer]) => timer.due <= horizon)
+      .sort((a, b) => a[1].due - b[1].due)
+      .forEach(([id, timer]) => {
+        if (pending.delete(id)) timer.callback();
+      });
+
+    if (pending.size === 0 && pumpId !== null) {
+      window.clearInterval(pumpId);
+      pumpId = null;
+    }
+  };
+
+  return {
+    now: audioNow,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      pending.set(id, { due: audioNow() + ms, callback });
+      if (pumpId === null) pumpId = window.setInterval(pump, PUMP_INTERVAL_MS);
+      return id;
+    },
+    clearTimeout: (id) => {
+      pending.delete(id);
+    },
+  };
+};
+
+export const audioClock = createAudioClock();
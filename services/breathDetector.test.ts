@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { BreathDetection, INITIAL_DETECTOR_STATE, breathsPerMinute, detectBreath, frameFeatures } from './breathDetector';
+
+const SAMPLE_RATE = 48000;
+const FRAME = 2048;
+
+// Seeded noise so every run hears the same signal
+const createNoise = (seed = 1) => {
+  let value = seed;
+  return () => {
+    value = (value * 16807) % 2147483647;
+    return (value / 2147483647) * 2 - 1;
+  };
+};
+
+type Kind = 'quiet' | 'bright' | 'dark';
+
+// Bright (high-passed) noise stands in for a nasal inhale, dark (low-passed) noise for a mouth exhale
+const createSignal = (segments: [Kind, number, number][]) => {
+  const noise = createNoise();
+  let lowPass = 0;
+  let highPassIn = 0;
+  let highPassOut = 0;
+  const samples: number[] = [];
+  for (const [kind, amplitude, ms] of segments) {
+    for (let i = 0; i < Math.round((ms * SAMPLE_RATE) / 1000); i++) {
+      const white = noise();
+      if (kind === 'dark') {
+        lowPass += (white - lowPass) * 0.05;
+        samples.push(lowPass * amplitude * 4);
+      } else if (kind === 'bright') {
+        highPassOut = 0.9 * (highPassOut + white - highPassIn);
+        highPassIn = white;
+        samples.push(highPassOut * amplitude);
+      } else {
+        samples.push(white * amplitude);
+      }
+    }
+  }
+  return Float32Array.from(samples);
+};
+
+// Feeds the signal frame by frame, as the microphone listener does
+const detectAll = (signal: Float32Array) => {
+  let state = INITIAL_DETECTOR_STATE;
+  const detections: BreathDetection[] = [];
+  for (let end = FRAME; end <= signal.length; end += FRAME) {
+    const result = detectBreath(state, {
+      samples: signal.subarray(end - FRAME, end),
+      sampleRate: SAMPLE_RATE,
+      at: (end / SAMPLE_RATE) * 1000,
+    });
+    state = result.state;
+    if (result.detection) detections.push(result.detection);
+  }
+  return detections;
+};
+
+const sine = (hz: number, amplitude: number) =>
+  Float32Array.from({ length: FRAME }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+describe('frameFeatures', () => {
+  it('measures level and puts the centroid at a pure tone', () => {
+    const { rms, centroid } = frameFeatures(sine(1000, 0.5), SAMPLE_RATE);
+    expect(rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(centroid).toBeGreaterThan(950);
+    expect(centroid).toBeLessThan(1050);
+  });
+
+  it('ignores energy outside the breath band', () => {
+    expect(frameFeatures(sine(50, 0.5), SAMPLE_RATE).centroid).toBeLessThan(300);
+    expect(frameFeatures(new Float32Array(FRAME), SAMPLE_RATE)).toEqual({ rms: 0, centroid: 0 });
+  });
+
+  it('places bright noise above dark noise', () => {
+    const bright = createSignal([['bright', 0.05, 100]]).subarray(0, FRAME);
+    const dark = createSignal([['dark', 0.05, 100]]).subarray(0, FRAME);
+    expect(frameFeatures(bright, SAMPLE_RATE).centroid).toBeGreaterThan(frameFeatures(dark, SAMPLE_RATE).centroid * 1.2);
+  });
+});
+
+describe('detectBreath', () => {
+  it('alternates inhale and exhale over a breathing pattern', () => {
+    const segments: [Kind, number, number][] = [['quiet', 0.002, 1000]];
+    for (let i = 0; i < 5; i++) {
+      segments.push(['bright', 0.05, 1200], ['quiet', 0.002, 200], ['dark', 0.05, 1000], ['quiet', 0.002, 400]);
+    }
+    const detections = detectAll(createSignal(segments));
+
+    expect(detections.map(detection => detection.stage)).toEqual(Array.from({ length: 10 }, (_, i) => (i % 2 ? 'exhale' : 'inhale')));
+    // Inhales start every 2.8 s, the first one after a second of quiet
+    detections
+      .filter(detection => detection.stage === 'inhale')
+      .forEach((detection, i) => expect(Math.abs(detection.at - (1000 + i * 2800))).toBeLessThan(100));
+  });
+
+  it('rejects bursts shorter than the minimum', () => {
+    const segments: [Kind, number, number][] = [['quiet', 0.002, 1000]];
+    for (let i = 0; i < 5; i++) segments.push(['bright', 0.05, 120], ['quiet', 0.002, 800]);
+    expect(detectAll(createSignal(segments))).toEqual([]);
+  });
+
+  it('stays quiet on background noise', () => {
+    expect(detectAll(createSignal([['quiet', 0.002, 5000]]))).toEqual([]);
+  });
+});
+
+describe('breathsPerMinute', () => {
+  it('needs at least two inhales', () => {
+    expect(breathsPerMinute([])).toBeNull();
+    expect(breathsPerMinute([1000])).toBeNull();
+    expect(breathsPerMinute([1000, 1000])).toBeNull();
+  });
+
+  it('counts breaths between the first and last inhale', () => {
+    expect(breathsPerMinute([0, 3000, 6000, 9000])).toBe(20);
+  });
+});
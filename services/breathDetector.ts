@@ -0,0 +1,191 @@
+// Breath detection for Glacial Breath
+// Turns microphone frames into inhale/exhale events. Everything here is a pure function of the frames
+// it is given, so it runs the same on live audio and on synthetic test signals.
+//
+// Breath sounds are bursts of noise well above the room's background. A burst that lasts long enough
+// is one half of a breath; which half comes from its spectral centroid, since air drawn in through the
+// nose hisses higher than air let out through the mouth. Once both kinds have been heard, each burst is
+// matched to the nearer one; until then a burst clearly lower than the last inhale is taken as an exhale.
+
+export type BreathHalf = 'inhale' | 'exhale';
+
+export interface BreathFrame {
+  samples: Float32Array; // mono time-domain samples, -1 to 1
+  sampleRate: number;
+  at: number; // ms on the session clock when the frame ends
+}
+
+export interface BreathDetection {
+  stage: BreathHalf;
+  at: number; // ms when the burst began
+}
+
+export interface BreathDetectorState {
+  floor: number; // background level (RMS)
+  envelope: number; // smoothed level (RMS)
+  active: boolean; // inside a burst
+  burstStartedAt: number;
+  peak: number; // loudest envelope in the current burst
+  loudMs: number; // time in the current burst spent above the background, not counting the envelope's tail
+  centroidSum: number; // over the current burst, for its average
+  frames: number;
+  reported: BreathHalf | null; // what the current burst was reported as
+  inhaleCentroid: number | null; // running averages per half, in Hz
+  exhaleCentroid: number | null;
+  lastStage: BreathHalf | null;
+}
+
+export const INITIAL_DETECTOR_STATE: BreathDetectorState = {
+  floor: 0,
+  envelope: 0,
+  active: false,
+  burstStartedAt: 0,
+  peak: 0,
+  loudMs: 0,
+  centroidSum: 0,
+  frames: 0,
+  reported: null,
+  inhaleCentroid: null,
+  exhaleCentroid: null,
+  lastStage: null,
+};
+
+const MIN_LEVEL = 0.004; // RMS below this is silence whatever the background
+const ON_RATIO = 3; // a burst starts this far above the background...
+const OFF_RATIO = 1.8; // ...and ends when it falls back below this,
+const PEAK_DROP = 0.35; // or well below its own peak, which catches a quick turn from inhale to exhale
+const ENVELOPE_SMOOTHING = 0.4;
+const FLOOR_FALL = 0.2; // the background follows quiet quickly and noise slowly
+const FLOOR_RISE = 0.01;
+const MIN_BURST_MS = 250; // shorter bursts are clicks, coughs or speech
+const BAND_HZ = [150, 5000]; // where breath noise lives; hum and hiss outside it are ignored
+const EXHALE_DROP = 0.85; // first exhale: centroid at most this fraction of the inhale's
+const CENTROID_SMOOTHING = 0.3;
+
+// -- Features --
+
+// In-place iterative radix-2 FFT; re and im must be the same power-of-two length
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+// Level (RMS) and spectral centroid (Hz, within BAND_HZ) of one frame
+export const frameFeatures = (samples: Float32Array, sampleRate: number) => {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+  const rms = samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+
+  // Largest power of two that fits, Hann-windowed
+  const n = samples.length > 1 ? 2 ** Math.floor(Math.log2(samples.length)) : 0;
+  if (n < 2) return { rms, centroid: 0 };
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  fft(re, im);
+
+  let weighted = 0;
+  let total = 0;
+  const binHz = sampleRate / n;
+  const first = Math.max(1, Math.ceil(BAND_HZ[0] / binHz));
+  const last = Math.min(n / 2, Math.floor(BAND_HZ[1] / binHz));
+  for (let bin = first; bin <= last; bin++) {
+    const magnitude = Math.hypot(re[bin], im[bin]);
+    weighted += magnitude * bin * binHz;
+    total += magnitude;
+  }
+  return { rms, centroid: total > 0 ? weighted / total : 0 };
+};
+
+// -- Classification --
+
+const classify = (state: BreathDetectorState, centroid: number): BreathHalf => {
+  const { inhaleCentroid, exhaleCentroid } = state;
+  if (inhaleCentroid === null) return 'inhale';
+  if (exhaleCentroid === null) {
+    return state.lastStage === 'inhale' && centroid < inhaleCentroid * EXHALE_DROP ? 'exhale' : 'inhale';
+  }
+  // Nearer on a log scale, since pitch differences are ratios
+  const toInhale = Math.abs(Math.log(centroid / inhaleCentroid));
+  const toExhale = Math.abs(Math.log(centroid / exhaleCentroid));
+  return toInhale <= toExhale ? 'inhale' : 'exhale';
+};
+
+const blend = (average: number | null, value: number) =>
+  average === null ? value : average + (value - average) * CENTROID_SMOOTHING;
+
+// Fold a finished burst's average centroid into its half
+const learn = (state: BreathDetectorState): BreathDetectorState => {
+  if (!state.reported || state.frames === 0) return state;
+  const centroid = state.centroidSum / state.frames;
+  return state.reported === 'inhale'
+    ? { ...state, inhaleCentroid: blend(state.inhaleCentroid, centroid) }
+    : { ...state, exhaleCentroid: blend(state.exhaleCentroid, centroid) };
+};
+
+// Feed frames in order; a detection comes back once per burst, as soon as it has been loud for MIN_BURST_MS
+export const detectBreath = (
+  state: BreathDetectorState,
+  frame: BreathFrame
+): { state: BreathDetectorState; detection: BreathDetection | null } => {
+  const { rms, centroid } = frameFeatures(frame.samples, frame.sampleRate);
+  const envelope = state.envelope + (rms - state.envelope) * ENVELOPE_SMOOTHING;
+  const frameMs = (frame.samples.length / frame.sampleRate) * 1000;
+  let next: BreathDetectorState = { ...state, envelope };
+
+  if (!state.active) {
+    next.floor = state.floor + (rms - state.floor) * (rms < state.floor ? FLOOR_FALL : FLOOR_RISE);
+    if (envelope > MIN_LEVEL && envelope > next.floor * ON_RATIO) {
+      next = { ...next, active: true, burstStartedAt: frame.at - frameMs, peak: 0, loudMs: 0, centroidSum: 0, frames: 0, reported: null };
+    } else {
+      return { state: next, detection: null };
+    }
+  } else if (envelope < Math.max(MIN_LEVEL, state.floor * OFF_RATIO, state.peak * PEAK_DROP)) {
+    return { state: { ...learn(next), active: false }, detection: null };
+  }
+
+  next.peak = Math.max(next.peak, envelope);
+  if (rms > Math.max(MIN_LEVEL, state.floor * OFF_RATIO)) next.loudMs += frameMs;
+
+  next.centroidSum += centroid;
+  next.frames += 1;
+  if (next.reported || next.loudMs < MIN_BURST_MS) return { state: next, detection: null };
+
+  const stage = classify(next, next.centroidSum / next.frames);
+  return {
+    state: { ...next, reported: stage, lastStage: stage },
+    detection: { stage, at: next.burstStartedAt },
+  };
+};
+
+// Breaths per minute from the times (ms) each inhale began; null with fewer than two
+export const breathsPerMinute = (inhaleTimes: number[]) => {
+  if (inhaleTimes.length < 2) return null;
+  const spanMs = inhaleTimes[inhaleTimes.length - 1] - inhaleTimes[0];
+  return spanMs > 0 ? ((inhaleTimes.length - 1) * 60000) / spanMs : null;
+};
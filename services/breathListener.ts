@@ -0,0 +1,42 @@
+// Microphone input for Glacial Breath
+// Feeds the microphone through an AnalyserNode on the shared AudioContext and hands each frame to the
+// breath detector. Nothing is connected to the speakers, so the cues never loop back into the mic.
+
+import { initAudio } from './audio';
+import { BreathDetection, INITIAL_DETECTOR_STATE, detectBreath } from './breathDetector';
+
+const FFT_SIZE = 2048; // about 43 ms at 48 kHz
+const POLL_INTERVAL_MS = 50;
+
+export const isMicrophoneSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Resolves once the microphone is open; call the returned function to close it.
+// Rejects if permission is refused or there is no microphone.
+export const startBreathListener = async (onBreath: (detection: BreathDetection) => void): Promise<() => void> => {
+  const ctx = await initAudio();
+  const stream = await navigator.mediaDevices.getUserMedia({
+    // Cancel the app's own cues, but leave the breath noise and its level alone
+    audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false },
+  });
+
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let state = INITIAL_DETECTOR_STATE;
+  const pollId = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const result = detectBreath(state, { samples, sampleRate: ctx.sampleRate, at: ctx.currentTime * 1000 });
+    state = result.state;
+    if (result.detection) onBreath(result.detection);
+  }, POLL_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(pollId);
+    source.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+  };
+};
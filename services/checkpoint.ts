@@ -0,0 +1,25 @@
+// In-progress session checkpoint for Glacial Breath
+// Kept in localStorage because it is written synchronously and often; IndexedDB only sees finished sessions
+
+import { SessionCheckpoint } from '../types';
+import { readStorage, removeStorage, writeStorage } from '../utils/storage';
+import { isStoredProtocol, validateProtocol } from './protocols';
+import { sanitizeSettings } from './settings';
+
+const STORAGE_KEY = 'glacial-breath:checkpoint';
+
+export const saveCheckpoint = (checkpoint: SessionCheckpoint) => {
+  writeStorage(STORAGE_KEY, checkpoint);
+};
+
+export const loadCheckpoint = (): SessionCheckpoint | null => {
+  const stored = readStorage<SessionCheckpoint | null>(STORAGE_KEY, null);
+  if (!stored || typeof stored !== 'object' || !Array.isArray(stored.stats) || !stored.settings) return null;
+  if (!isStoredProtocol(stored.protocol) || validateProtocol(stored.protocol) !== null) return null;
+  // Checkpoints written by older versions lack newer settings fields
+  return { ...stored, settings: sanitizeSettings(stored.settings) };
+};
+
+export const clearCheckpoint = () => {
+  removeStorage(STORAGE_KEY);
+};
@@ -0,0 +1,95 @@
+// Offline session renderer for Glacial Breath
+// Plays a whole session through the engine on a virtual clock and renders the cues to a WAV file
+
+import { MixerSettings, SessionPhase } from '../types';
+import { createSessionEngine, createVirtualClock, SessionPlan } from './sessionEngine';
+import { applyMixerSettings, createMixerBus, synthBell, synthExhale, synthInhale, synthPip } from './audio';
+import { encodeWav } from '../utils/wav';
+
+const SAMPLE_RATE = 44100;
+const TAIL_SECONDS = 4; // let the final bell ring out
+const PROGRESS_STEP_SECONDS = 10;
+const MAX_SESSION_MS = 4 * 60 * 60 * 1000;
+export const DEFAULT_RETENTION_TARGET_SECONDS = 90;
+
+// Older Safari only has the prefixed constructor
+interface PrefixedWindow extends Window {
+  webkitOfflineAudioContext?: typeof OfflineAudioContext;
+}
+
+interface Cue {
+  type: 'inhale' | 'exhale' | 'bell' | 'pip';
+  at: number; // ms from session start
+  durationMs: number;
+}
+
+// Runs the session engine instantly, ending each retention after its target hold
+const buildCueTimeline = (plan: SessionPlan, retentionTargets: number[]) => {
+  const clock = createVirtualClock();
+  const engine = createSessionEngine(clock);
+  const cues: Cue[] = [];
+  let endedAt = 0;
+
+  engine.subscribe((event, state) => {
+    if (event.type === 'inhale' || event.type === 'exhale') {
+      cues.push({ type: event.type, at: event.at, durationMs: event.durationMs });
+    }
+    if (event.type === 'bell') cues.push({ type: 'bell', at: event.at, durationMs: 0 });
+    if (event.type === 'countdown') cues.push({ type: 'pip', at: event.at, durationMs: 0 });
+    if (event.type === 'phase' && event.phase === SessionPhase.RETENTION) {
+      const target = retentionTargets[state.round - 1] ?? DEFAULT_RETENTION_TARGET_SECONDS;
+      clock.setTimeout(() => engine.endRetention(), target * 1000);
+    }
+    if (event.type === 'phase' && event.phase === SessionPhase.COMPLETED) endedAt = event.at;
+  });
+
+  engine.start(plan);
+  clock.runUntilIdle(MAX_SESSION_MS);
+  return { cues, durationMs: endedAt || clock.now() };
+};
+
+// retentionTargets are seconds, indexed by round
+export const renderSessionWav = async (
+  plan: SessionPlan,
+  retentionTargets: number[],
+  mixer: MixerSettings,
+  onProgress: (fraction: number) => void
+) => {
+  const { cues, durationMs } = buildCueTimeline(plan, retentionTargets);
+  const seconds = durationMs / 1000 + TAIL_SECONDS;
+
+  const OfflineContext = window.OfflineAudioContext || (window as PrefixedWindow).webkitOfflineAudioContext;
+  const ctx: OfflineAudioContext = new OfflineContext(1, Math.ceil(seconds * SAMPLE_RATE), SAMPLE_RATE);
+
+  // Same mix as the live session, but never muted
+  const bus = createMixerBus(ctx);
+  applyMixerSettings(ctx, bus, { ...mixer, muted: false });
+
+  cues.forEach(cue => {
+    const t = cue.at / 1000;
+    if (cue.type === 'inhale') synthInhale(ctx, bus, t, cue.durationMs);
+    if (cue.type === 'exhale') synthExhale(ctx, bus, t, cue.durationMs);
+    if (cue.type === 'bell') synthBell(ctx, bus, t);
+    if (cue.type === 'pip') synthPip(ctx, bus, t);
+  });
+
+  // Offline rendering has no progress events, so pause at regular points to report.
+  // Safari can reject a suspend it considers past or duplicated; the render would stall there, so fail the export instead.
+  let failRender: (error: unknown) => void = () => {};
+  const suspendFailed = new Promise<never>((_, reject) => {
+    failRender = reject;
+  });
+  for (let t = PROGRESS_STEP_SECONDS; t < seconds; t += PROGRESS_STEP_SECONDS) {
+    ctx
+      .suspend(t)
+      .then(() => {
+        onProgress(t / seconds);
+        return ctx.resume();
+      })
+      .catch(failRender);
+  }
+
+  const rendered = await Promise.race([ctx.startRendering(), suspendFailed]);
+  onProgress(1);
+  return encodeWav(rendered);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HAPTIC_SETTINGS, HapticSettings, SessionPhase } from '../types';
+import { HAPTIC_PATTERNS, HapticPattern, compilePattern, hapticsForEvent } from './haptics';
+import { SessionState, createSessionEngine } from './sessionEngine';
+
+const idle = createSessionEngine().getState();
+const stateIn = (phase: SessionPhase, patch: Partial<SessionState> = {}): SessionState => ({ ...idle, phase, ...patch });
+const settings = (patch: Partial<HapticSettings> = {}): HapticSettings => ({ ...DEFAULT_HAPTIC_SETTINGS, intensity: 1, ...patch });
+const tick = (elapsed: number) => ({ type: 'tick' as const, elapsed, at: elapsed * 1000 });
+
+describe('compilePattern', () => {
+  it('spreads a stretched pattern across the cue', () => {
+    expect(compilePattern(HAPTIC_PATTERNS.rising, 1000, 1)).toEqual([20, 130, 35, 115, 50, 100, 65, 85, 80, 70, 100]);
+    expect(compilePattern(HAPTIC_PATTERNS.rising, 2000, 1)).toEqual([20, 280, 35, 265, 50, 250, 65, 235, 80, 220, 100]);
+  });
+
+  it('keeps fixed offsets whatever the cue length', () => {
+    expect(compilePattern(HAPTIC_PATTERNS.heartbeat, 0, 1)).toEqual([100, 150, 60]);
+    expect(compilePattern(HAPTIC_PATTERNS.heartbeat, 5000, 1)).toEqual([100, 150, 60]);
+  });
+
+  it('scales pulses by intensity and drops the ones too short to feel', () => {
+    // The first pulse would be 4 ms, so the timeline opens with a pause until the second
+    expect(compilePattern(HAPTIC_PATTERNS.rising, 1000, 0.2)).toEqual([0, 150, 7, 143, 10, 140, 13, 137, 16, 134, 20]);
+    expect(compilePattern(HAPTIC_PATTERNS.tap, 0, 0.04)).toEqual([]);
+  });
+
+  it('pushes overlapping pulses back instead of merging them', () => {
+    const pattern: HapticPattern = {
+      stretch: false,
+      pulses: [
+        { offset: 0, strength: 1 },
+        { offset: 50, strength: 1 },
+        { offset: 300, strength: 1 },
+      ],
+    };
+    expect(compilePattern(pattern, 0, 1)).toEqual([100, 0, 100, 100, 100]);
+  });
+});
+
+describe('hapticsForEvent', () => {
+  it('follows the breath with the chosen patterns', () => {
+    const breathing = stateIn(SessionPhase.BREATHING);
+    expect(hapticsForEvent({ type: 'inhale', durationMs: 1000, at: 0 }, breathing, settings({ inhale: 'rising' }))).toEqual(
+      compilePattern(HAPTIC_PATTERNS.rising, 1000, 1)
+    );
+    expect(hapticsForEvent({ type: 'exhale', durationMs: 1000, at: 0 }, breathing, settings({ exhale: 'off' }))).toBeNull();
+    expect(hapticsForEvent({ type: 'inhale', durationMs: 1000, at: 0 }, breathing, settings({ intensity: 0 }))).toBeNull();
+  });
+
+  it('beats every heartbeatSeconds during retention', () => {
+    const retention = stateIn(SessionPhase.RETENTION);
+    const heartbeat = settings({ retention: 'heartbeat', heartbeatSeconds: 10 });
+    const beats = [0.1, 5, 9.9, 10, 15, 20, 20.1].filter(elapsed => hapticsForEvent(tick(elapsed), retention, heartbeat));
+    expect(beats).toEqual([10, 20]);
+    expect(hapticsForEvent(tick(10), retention, settings({ retention: 'off' }))).toBeNull();
+  });
+
+  it('starts the recovery countdown three seconds before the hold ends', () => {
+    const recovery = stateIn(SessionPhase.RECOVERY, { phaseDurationMs: 15000 });
+    const countdown = settings({ recovery: 'countdown' });
+    expect(hapticsForEvent(tick(11.9), recovery, countdown)).toBeNull();
+    expect(hapticsForEvent(tick(12), recovery, countdown)).toEqual(compilePattern(HAPTIC_PATTERNS.countdown, 0, 1));
+    expect(hapticsForEvent(tick(12.1), recovery, countdown)).toBeNull();
+    // Not outside recovery
+    expect(hapticsForEvent(tick(12), stateIn(SessionPhase.REST, { phaseDurationMs: 15000 }), countdown)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+// Haptics for Glacial Breath
+// Vibration patterns are plain data; hapticsForEvent turns engine events into navigator.vibrate() arrays
+// and the coach lines them up with the audio. The Vibration API has no amplitude, so strength and
+// intensity scale pulse length instead.
+
+import { HapticPatternId, HapticSettings, SessionPhase } from '../types';
+import { Clock, SessionEvent, SessionListener, SessionState } from './sessionEngine';
+
+export interface HapticPulse {
+  offset: number; // ms from the start of the cue, or a 0–1 fraction of it when the pattern stretches
+  strength: number; // 0 to 1
+}
+
+export interface HapticPattern {
+  stretch: boolean; // spread across the cue (a breath stage) instead of fixed timing
+  pulses: HapticPulse[];
+}
+
+export const HAPTIC_PATTERNS: Record<Exclude<HapticPatternId, 'off'>, HapticPattern> = {
+  tap: {
+    stretch: false,
+    pulses: [{ offset: 0, strength: 0.4 }],
+  },
+  rising: {
+    stretch: true,
+    pulses: [
+      { offset: 0, strength: 0.2 },
+      { offset: 0.15, strength: 0.35 },
+      { offset: 0.3, strength: 0.5 },
+      { offset: 0.45, strength: 0.65 },
+      { offset: 0.6, strength: 0.8 },
+      { offset: 0.75, strength: 1 },
+    ],
+  },
+  fading: {
+    stretch: true,
+    pulses: [
+      { offset: 0, strength: 1 },
+      { offset: 0.15, strength: 0.8 },
+      { offset: 0.3, strength: 0.65 },
+      { offset: 0.45, strength: 0.5 },
+      { offset: 0.6, strength: 0.35 },
+      { offset: 0.75, strength: 0.2 },
+    ],
+  },
+  // Lub-dub
+  heartbeat: {
+    stretch: false,
+    pulses: [
+      { offset: 0, strength: 1 },
+      { offset: 250, strength: 0.6 },
+    ],
+  },
+  // Three ticks a second apart, the last one long; starts COUNTDOWN_S before the hold ends
+  countdown: {
+    stretch: false,
+    pulses: [
+      { offset: 0, strength: 0.5 },
+      { offset: 1000, strength: 0.5 },
+      { offset: 2000, strength: 0.5 },
+      { offset: 2900, strength: 1 },
+    ],
+  },
+};
+
+// Phase changes (start of retention, end of recovery) always get the same triple buzz
+const BELL_PATTERN: HapticPattern = {
+  stretch: false,
+  pulses: [
+    { offset: 0, strength: 0.8 },
+    { offset: 100, strength: 0.8 },
+    { offset: 200, strength: 0.8 },
+  ],
+};
+
+const MAX_PULSE_MS = 100;
+const MIN_PULSE_MS = 5; // shorter buzzes don't register on most motors
+const COUNTDOWN_S = 3;
+
+// Alternating on/off durations for navigator.vibrate(); empty when there is nothing to feel
+export const compilePattern = (pattern: HapticPattern, cueMs: number, intensity: number): number[] => {
+  const timeline: number[] = [];
+  let cursor = 0;
+  for (const pulse of pattern.pulses) {
+    const length = Math.round(MAX_PULSE_MS * pulse.strength * intensity);
+    if (length < MIN_PULSE_MS) continue;
+    const start = Math.round(pattern.stretch ? pulse.offset * cueMs : pulse.offset);
+    // Overlapping pulses are pushed back rather than merged
+    const gap = Math.max(0, start - cursor);
+    if (timeline.length === 0) {
+      if (gap > 0) timeline.push(0, gap);
+    } else {
+      timeline.push(gap);
+    }
+    timeline.push(length);
+    cursor += gap + length;
+  }
+  return timeline;
+};
+
+const compile = (id: HapticPatternId, cueMs: number, settings: HapticSettings) =>
+  id === 'off' ? [] : compilePattern(HAPTIC_PATTERNS[id], cueMs, settings.intensity);
+
+// The vibration for one engine event, or null when it has none
+export const hapticsForEvent = (event: SessionEvent, state: SessionState, settings: HapticSettings): number[] | null => {
+  if (settings.intensity <= 0) return null;
+  let timeline: number[] = [];
+
+  switch (event.type) {
+    case 'inhale':
+      timeline = compile(settings.inhale, event.durationMs, settings);
+      break;
+
+    case 'exhale':
+      timeline = compile(settings.exhale, event.durationMs, settings);
+      break;
+
+    case 'bell':
+      timeline = compilePattern(BELL_PATTERN, 0, settings.intensity);
+      break;
+
+    case 'countdown':
+      timeline = compilePattern(HAPTIC_PATTERNS.tap, 0, settings.intensity);
+      break;
+
+    case 'tick': {
+      // Ticks land on exact tenths of a second, so each check matches once
+      const tenths = Math.round(event.elapsed * 10);
+      if (state.phase === SessionPhase.RETENTION && tenths > 0 && tenths % (settings.heartbeatSeconds * 10) === 0) {
+        timeline = compile(settings.retention, 0, settings);
+      }
+      if (state.phase === SessionPhase.RECOVERY && Math.round(state.phaseDurationMs / 100) - tenths === COUNTDOWN_S * 10) {
+        timeline = compile(settings.recovery, 0, settings);
+      }
+      break;
+    }
+  }
+
+  return timeline.length > 0 ? timeline : null;
+};
+
+export const isHapticsSupported = () => typeof navigator !== 'undefined' && 'vibrate' in navigator;
+
+// Returns a session listener that vibrates along with the session. Only clock.now() is used:
+// vibration can't be queued ahead like audio, so each pattern waits on a page timer until its cue.
+export const createHapticCoach = (settings: HapticSettings, clock: Clock): SessionListener => {
+  const timers = new Set<number>();
+
+  const cancel = () => {
+    timers.forEach(id => window.clearTimeout(id));
+    timers.clear();
+    if (isHapticsSupported()) navigator.vibrate(0);
+  };
+
+  return (event, state) => {
+    if (!isHapticsSupported()) return;
+
+    if (event.type === 'pause' || (event.type === 'phase' && event.phase === SessionPhase.IDLE)) {
+      cancel();
+      return;
+    }
+
+    const timeline = hapticsForEvent(event, state, settings);
+    if (!timeline) return;
+    const id = window.setTimeout(() => {
+      timers.delete(id);
+      navigator.vibrate(timeline);
+    }, Math.max(0, event.at - clock.now()));
+    timers.add(id);
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SessionPhase } from '../types';
+import { createVirtualClock } from './sessionEngine';
+import {
+  HeartRateMeasurement,
+  SAMPLE_RECORDING,
+  createHeartRateRecorder,
+  createSimulatedTransport,
+  parseHeartRateMeasurement,
+  summarizeHeartRate,
+} from './heartRate';
+
+const packet = (bytes: number[]) => new DataView(new Uint8Array(bytes).buffer);
+
+// Connects a simulated strap on a virtual clock and collects what it sends until `until` ms
+const replay = async (until: number) => {
+  const clock = createVirtualClock();
+  const transport = createSimulatedTransport(SAMPLE_RECORDING, 'Test strap', clock);
+  const received: { at: number; measurement: HeartRateMeasurement }[] = [];
+  await transport.connect(data => received.push({ at: clock.now(), measurement: parseHeartRateMeasurement(data) }), () => {});
+  clock.advanceTo(until);
+  return { clock, transport, received };
+};
+
+describe('parseHeartRateMeasurement', () => {
+  it('reads 8-bit values and the contact flags', () => {
+    expect(parseHeartRateMeasurement(packet([0x06, 64]))).toEqual({ bpm: 64, contact: 'detected', energyExpended: undefined, rrIntervals: [] });
+    expect(parseHeartRateMeasurement(packet([0x04, 0])).contact).toBe('lost');
+    expect(parseHeartRateMeasurement(packet([0x00, 70])).contact).toBe('unsupported');
+  });
+
+  it('reads 16-bit values, energy and RR intervals in milliseconds', () => {
+    // 0x031a / 1024 s = 775.4 ms, 0x030d / 1024 s = 762.7 ms
+    expect(parseHeartRateMeasurement(packet([0x17, 76, 0x00, 0x1a, 0x03, 0x0d, 0x03]))).toMatchObject({ bpm: 76, rrIntervals: [775, 763] });
+    expect(parseHeartRateMeasurement(packet([0x09, 0x2c, 0x01, 0x10, 0x00]))).toMatchObject({ bpm: 300, energyExpended: 16, rrIntervals: [] });
+  });
+
+  it('ignores a dangling RR byte', () => {
+    expect(parseHeartRateMeasurement(packet([0x10, 60, 0x00, 0x04, 0x01])).rrIntervals).toEqual([1000]);
+  });
+});
+
+describe('createSimulatedTransport', () => {
+  it('replays the recording on the clock it is given', async () => {
+    const { received } = await replay(7000);
+    expect(received.map(({ at }) => at)).toEqual(SAMPLE_RECORDING.map(({ at }) => at));
+    expect(received.map(({ measurement }) => measurement.bpm)).toEqual([64, 66, 71, 76, 74, 69, 0, 63]);
+    expect(received[1].measurement.rrIntervals).toEqual([938]);
+  });
+
+  it('loops until disconnected', async () => {
+    const { clock, transport, received } = await replay(8000);
+    expect(received).toHaveLength(SAMPLE_RECORDING.length + 1);
+    transport.disconnect();
+    clock.advanceTo(30000);
+    expect(received).toHaveLength(SAMPLE_RECORDING.length + 1);
+  });
+});
+
+describe('createHeartRateRecorder', () => {
+  it('tags samples with the phase and round, dropping readings without contact', async () => {
+    const { received } = await replay(7000);
+    const recorder = createHeartRateRecorder();
+    received.forEach(({ at, measurement }) => {
+      const phase = at < 4000 ? SessionPhase.BREATHING : SessionPhase.RETENTION;
+      recorder.add(measurement, phase, 1, at / 1000);
+    });
+
+    const samples = recorder.samples();
+    expect(samples).toHaveLength(SAMPLE_RECORDING.length - 1);
+    expect(samples.map(sample => sample.t)).not.toContain(6);
+    expect(samples[0]).toEqual({ t: 0, bpm: 64, phase: SessionPhase.BREATHING, round: 1 });
+    expect(samples[3]).toEqual({ t: 3, bpm: 76, phase: SessionPhase.BREATHING, round: 1, rr: [775, 763] });
+    expect(summarizeHeartRate(samples, sample => sample.phase === SessionPhase.RETENTION)).toEqual({ min: 63, max: 74, average: 69 });
+
+    recorder.reset();
+    expect(recorder.samples()).toEqual([]);
+  });
+});
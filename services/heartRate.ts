@@ -0,0 +1,219 @@
+// Heart-rate sensors for Glacial Breath
+// Chest straps speak the standard Bluetooth LE Heart Rate profile. Packets arrive through a
+// HeartRateTransport, so the parser and recorder run the same against a real strap (Web Bluetooth)
+// or a simulated one replaying recorded packets.
+
+import { HeartRateSample, SessionPhase } from '../types';
+import { Clock, systemClock } from './sessionEngine';
+
+export type SensorContact = 'detected' | 'lost' | 'unsupported';
+
+// One Heart Rate Measurement notification
+export interface HeartRateMeasurement {
+  bpm: number;
+  contact: SensorContact;
+  energyExpended?: number; // kilojoules since the strap was last reset
+  rrIntervals: number[]; // milliseconds between beats, oldest first; often empty
+}
+
+// Flag bits of the Heart Rate Measurement characteristic (0x2A37)
+const FLAG_UINT16 = 0x01;
+const FLAG_CONTACT_DETECTED = 0x02;
+const FLAG_CONTACT_SUPPORTED = 0x04;
+const FLAG_ENERGY = 0x08;
+const FLAG_RR = 0x10;
+const RR_UNITS_PER_SECOND = 1024;
+
+export const parseHeartRateMeasurement = (data: DataView): HeartRateMeasurement => {
+  const flags = data.getUint8(0);
+  let offset = 1;
+
+  const bpm = flags & FLAG_UINT16 ? data.getUint16(offset, true) : data.getUint8(offset);
+  offset += flags & FLAG_UINT16 ? 2 : 1;
+
+  const contact: SensorContact = !(flags & FLAG_CONTACT_SUPPORTED)
+    ? 'unsupported'
+    : flags & FLAG_CONTACT_DETECTED ? 'detected' : 'lost';
+
+  let energyExpended: number | undefined;
+  if (flags & FLAG_ENERGY) {
+    energyExpended = data.getUint16(offset, true);
+    offset += 2;
+  }
+
+  // Whatever is left is RR intervals, two bytes each
+  const rrIntervals: number[] = [];
+  if (flags & FLAG_RR) {
+    for (; offset + 1 < data.byteLength; offset += 2) {
+      rrIntervals.push(Math.round((data.getUint16(offset, true) / RR_UNITS_PER_SECOND) * 1000));
+    }
+  }
+
+  return { bpm, contact, energyExpended, rrIntervals };
+};
+
+// -- Transports --
+
+export interface HeartRateTransport {
+  // Resolves once packets are flowing; onClose fires if the sensor goes away on its own
+  connect: (onPacket: (packet: DataView) => void, onClose: () => void) => Promise<void>;
+  disconnect: () => void;
+  name: () => string; // the device name, once connected
+}
+
+// The slice of Web Bluetooth used here; TypeScript's DOM types don't include it
+interface BluetoothCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications: () => Promise<BluetoothCharacteristic>;
+}
+
+interface BluetoothDevice extends EventTarget {
+  name?: string;
+  gatt?: {
+    connected: boolean;
+    connect: () => Promise<{
+      getPrimaryService: (service: string) => Promise<{
+        getCharacteristic: (characteristic: string) => Promise<BluetoothCharacteristic>;
+      }>;
+    }>;
+    disconnect: () => void;
+  };
+}
+
+interface Bluetooth {
+  requestDevice: (options: { filters: { services: string[] }[] }) => Promise<BluetoothDevice>;
+}
+
+const bluetooth = () => (typeof navigator !== 'undefined' ? (navigator as Navigator & { bluetooth?: Bluetooth }).bluetooth : undefined);
+
+export const isBluetoothSupported = () => bluetooth() !== undefined;
+
+// Must be called from a user gesture: requestDevice opens the browser's device picker
+export const createBluetoothTransport = (): HeartRateTransport => {
+  let device: BluetoothDevice | null = null;
+  let closeHandler: (() => void) | null = null;
+
+  return {
+    connect: async (onPacket, onClose) => {
+      const api = bluetooth();
+      if (!api) throw new Error('Web Bluetooth is not available');
+      device = await api.requestDevice({ filters: [{ services: ['heart_rate'] }] });
+      if (!device.gatt) throw new Error('The device has no GATT server');
+
+      closeHandler = onClose;
+      device.addEventListener('gattserverdisconnected', onClose);
+      const server = await device.gatt.connect();
+      const service = await server.getPrimaryService('heart_rate');
+      const characteristic = await service.getCharacteristic('heart_rate_measurement');
+      characteristic.addEventListener('characteristicvaluechanged', () => {
+        if (characteristic.value) onPacket(characteristic.value);
+      });
+      await characteristic.startNotifications();
+    },
+    disconnect: () => {
+      if (!device) return;
+      if (closeHandler) device.removeEventListener('gattserverdisconnected', closeHandler);
+      if (device.gatt?.connected) device.gatt.disconnect();
+      device = null;
+    },
+    name: () => device?.name ?? '',
+  };
+};
+
+// A recorded notification: milliseconds since the recording started and the raw characteristic bytes
+export interface RecordedPacket {
+  at: number;
+  bytes: number[];
+}
+
+// A few seconds from a chest strap: 8-bit values with contact, then 16-bit values with RR intervals
+export const SAMPLE_RECORDING: RecordedPacket[] = [
+  { at: 0, bytes: [0x06, 64] },
+  { at: 1000, bytes: [0x16, 66, 0xc0, 0x03] },
+  { at: 2000, bytes: [0x16, 71, 0x60, 0x03] },
+  { at: 3000, bytes: [0x17, 76, 0x00, 0x1a, 0x03, 0x0d, 0x03] },
+  { at: 4000, bytes: [0x16, 74, 0x3b, 0x03] },
+  { at: 5000, bytes: [0x16, 69, 0x7b, 0x03] },
+  { at: 6000, bytes: [0x04, 0] },
+  { at: 7000, bytes: [0x16, 63, 0xcf, 0x03] },
+];
+
+// Replays packets on the given clock's timers, looping until disconnected
+export const createSimulatedTransport = (
+  recording: RecordedPacket[] = SAMPLE_RECORDING,
+  name = 'Simulated strap',
+  clock: Clock = systemClock
+): HeartRateTransport => {
+  const timers = new Set<number>();
+  const loopMs = recording.length > 0 ? recording[recording.length - 1].at + 1000 : 0;
+
+  const schedule = (onPacket: (packet: DataView) => void, startAt: number) => {
+    recording.forEach(({ at, bytes }) => {
+      const id = clock.setTimeout(() => {
+        timers.delete(id);
+        onPacket(new DataView(new Uint8Array(bytes).buffer));
+      }, startAt + at);
+      timers.add(id);
+    });
+    const id = clock.setTimeout(() => {
+      timers.delete(id);
+      schedule(onPacket, 0);
+    }, startAt + loopMs);
+    timers.add(id);
+  };
+
+  return {
+    connect: async onPacket => {
+      if (loopMs > 0) schedule(onPacket, 0);
+    },
+    disconnect: () => {
+      timers.forEach(id => clock.clearTimeout(id));
+      timers.clear();
+    },
+    name: () => name,
+  };
+};
+
+// -- Recording --
+
+export interface HeartRateRecorder {
+  add: (measurement: HeartRateMeasurement, phase: SessionPhase, round: number, t: number) => void;
+  samples: () => HeartRateSample[];
+  reset: () => void;
+}
+
+// Collects one sample per measurement, tagged with where in the session it was taken.
+// Readings without skin contact are noise, so they are dropped.
+export const createHeartRateRecorder = (): HeartRateRecorder => {
+  let samples: HeartRateSample[] = [];
+
+  return {
+    add: (measurement, phase, round, t) => {
+      if (measurement.contact === 'lost' || measurement.bpm <= 0) return;
+      const sample: HeartRateSample = { t, bpm: measurement.bpm, phase, round };
+      if (measurement.rrIntervals.length > 0) sample.rr = measurement.rrIntervals;
+      samples.push(sample);
+    },
+    samples: () => samples,
+    reset: () => {
+      samples = [];
+    },
+  };
+};
+
+export interface HeartRateSummary {
+  min: number;
+  max: number;
+  average: number;
+}
+
+// Heart rate for the samples that match, e.g. one round's retention; null when there are none
+export const summarizeHeartRate = (samples: HeartRateSample[], match: (sample: HeartRateSample) => boolean = () => true): HeartRateSummary | null => {
+  const bpms = samples.filter(match).map(sample => sample.bpm);
+  if (bpms.length === 0) return null;
+  return {
+    min: Math.min(...bpms),
+    max: Math.max(...bpms),
+    average: Math.round(bpms.reduce((sum, bpm) => sum + bpm, 0) / bpms.length),
+  };
+};
@@ -0,0 +1,96 @@
+// Session history for Glacial Breath
+// Persists finished and aborted sessions locally in IndexedDB
+
+import { SessionRecord } from '../types';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+const DB_NAME = 'glacial-breath';
+const SESSIONS_STORE = 'sessions';
+
+// Each entry upgrades the schema by one version: MIGRATIONS[0] creates v1, MIGRATIONS[1] moves v1 -> v2, ...
+// Never edit a shipped migration, append a new one instead.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  (db) => {
+    const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    store.createIndex('startedAt', 'startedAt');
+  },
+  // v2: sessions belong to a profile; everything recorded so far goes to the default one
+  (_db, tx) => {
+    const store = tx.objectStore(SESSIONS_STORE);
+    store.createIndex('profileId', 'profileId');
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!cursor.value.profileId) cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+      cursor.continue();
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, mode);
+  return requestToPromise(run(tx.objectStore(SESSIONS_STORE)));
+};
+
+export const saveSession = async (record: SessionRecord) => {
+  await withStore('readwrite', store => store.put(record));
+};
+
+// One profile's sessions, newest first
+export const listSessions = async (profileId: string) => {
+  const records = await withStore<SessionRecord[]>('readonly', store => store.index('profileId').getAll(profileId));
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// Ids of every stored session, whichever profile it belongs to
+export const listSessionIds = async () => {
+  const keys = await withStore<IDBValidKey[]>('readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+export const deleteSession = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,184 @@
+// History import/export for Glacial Breath
+// JSON round-trips everything and is versioned; CSV is a flat, one-row-per-round view for spreadsheets
+
+import { HeartRateSample, HoldAlarm, SessionPhase, SessionRecord, SessionStats } from '../types';
+import { sanitizeSettings } from './settings';
+import { getMessages } from './i18n';
+
+const FORMAT = 'glacial-breath-history';
+const FORMAT_VERSION = 1;
+
+interface HistoryFile {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: SessionRecord[];
+}
+
+export interface HistoryImport {
+  sessions: SessionRecord[];
+  errors: string[]; // one line per rejected file or session
+}
+
+export const exportHistoryJson = (sessions: SessionRecord[]) => {
+  const file: HistoryFile = {
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'session_id', 'started_at', 'duration_s', 'completed', 'protocol',
+  'breaths_per_round', 'tempo_ms', 'total_rounds', 'recovery_hold_s', 'round', 'retention_s', 'alarms', 'breaths_per_min',
+];
+
+const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// e.g. "chime@180.0;alarm@195.0", seconds into the hold
+const csvAlarms = (alarms: HoldAlarm[] = []) => alarms.map(alarm => `${alarm.level}@${alarm.at.toFixed(1)}`).join(';');
+
+// One row per completed hold; sessions without holds still get a row with the round columns empty
+export const exportHistoryCsv = (sessions: SessionRecord[]) => {
+  const rows = sessions.flatMap(session => {
+    const base = [
+      session.id,
+      new Date(session.startedAt).toISOString(),
+      Math.round(session.durationMs / 1000),
+      session.completed,
+      session.protocolName ?? 'Wim Hof',
+      session.settings.breathsPerRound,
+      session.settings.tempoMs,
+      session.settings.totalRounds,
+      session.settings.recoveryHoldSeconds,
+    ];
+    if (session.stats.length === 0) return [[...base, '', '', '', '']];
+    return session.stats.map(stat => [
+      ...base, stat.round, stat.retentionTime.toFixed(1), csvAlarms(stat.alarms), stat.breathsPerMinute?.toFixed(1) ?? '',
+    ]);
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+};
+
+// -- Import --
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isHoldAlarm = (value: unknown) =>
+  isObject(value) && (value.level === 'chime' || value.level === 'alarm') && isNumber(value.at);
+
+const validateStats = (stats: unknown): string | null => {
+  const problems = getMessages().historyImport.problems;
+  if (!Array.isArray(stats)) return problems.stats;
+  for (const stat of stats) {
+    if (!isObject(stat) || !isNumber(stat.round) || !isNumber(stat.retentionTime)) {
+      return problems.stat;
+    }
+    if (stat.alarms !== undefined && !(Array.isArray(stat.alarms) && stat.alarms.every(isHoldAlarm))) {
+      return problems.stat;
+    }
+    if (stat.breathsPerMinute !== undefined && !(isNumber(stat.breathsPerMinute) && stat.breathsPerMinute > 0)) {
+      return problems.stat;
+    }
+  }
+  return null;
+};
+
+const isHeartRateSample = (value: unknown) =>
+  isObject(value) &&
+  isNumber(value.t) &&
+  isNumber(value.bpm) &&
+  isNumber(value.round) &&
+  Object.values(SessionPhase).includes(value.phase as SessionPhase) &&
+  (value.rr === undefined || (Array.isArray(value.rr) && value.rr.every(isNumber)));
+
+export const validateSessionRecord = (value: unknown): string | null => {
+  const problems = getMessages().historyImport.problems;
+  if (!isObject(value)) return problems.notObject;
+  if (typeof value.id !== 'string' || !value.id) return problems.id;
+  if (!isNumber(value.startedAt)) return problems.startedAt;
+  if (!isNumber(value.durationMs) || value.durationMs < 0) return problems.durationMs;
+  if (typeof value.completed !== 'boolean') return problems.completed;
+  if (!isObject(value.settings)) return problems.settings;
+  for (const key of ['breathsPerRound', 'tempoMs', 'totalRounds'] as const) {
+    if (!isNumber(value.settings[key])) return problems.settingsField(key);
+  }
+  if (value.protocolName !== undefined && typeof value.protocolName !== 'string') return problems.protocolName;
+  if (value.profileId !== undefined && typeof value.profileId !== 'string') return problems.profileId;
+  if (value.heartRate !== undefined && !(Array.isArray(value.heartRate) && value.heartRate.every(isHeartRateSample))) {
+    return problems.heartRate;
+  }
+  return validateStats(value.stats);
+};
+
+// Settings go through the same validation as the settings sheet, so old or hand-edited files can't smuggle in bad values
+const normalizeRecord = (value: Record<string, unknown>): SessionRecord => {
+  const heartRate = value.heartRate as HeartRateSample[] | undefined;
+  return {
+    id: value.id as string,
+    startedAt: value.startedAt as number,
+    durationMs: value.durationMs as number,
+    completed: value.completed as boolean,
+    settings: sanitizeSettings(value.settings),
+    protocolName: value.protocolName as string | undefined,
+    profileId: value.profileId as string | undefined,
+    stats: (value.stats as SessionStats[]).map(({ round, retentionTime, alarms, breathsPerMinute }) => ({
+      round,
+      retentionTime,
+      ...(alarms?.length && { alarms: alarms.map(({ level, at }) => ({ level, at })) }),
+      ...(breathsPerMinute !== undefined && { breathsPerMinute }),
+    })),
+    ...(heartRate?.length && {
+      heartRate: heartRate.map(({ t, bpm, phase, round, rr }) => (rr ? { t, bpm, phase, round, rr } : { t, bpm, phase, round })),
+    }),
+  };
+};
+
+export const parseHistoryJson = (text: string): HistoryImport => {
+  const messages = getMessages().historyImport;
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { sessions: [], errors: [messages.notJson] };
+  }
+
+  if (!isObject(file) || file.format !== FORMAT) {
+    return { sessions: [], errors: [messages.notExport] };
+  }
+  if (!isNumber(file.version) || file.version > FORMAT_VERSION) {
+    return { sessions: [], errors: [messages.newerVersion(String(file.version))] };
+  }
+  if (!Array.isArray(file.sessions)) {
+    return { sessions: [], errors: [messages.noSessions] };
+  }
+
+  const sessions: SessionRecord[] = [];
+  const errors: string[] = [];
+  file.sessions.forEach((entry, index) => {
+    const error = validateSessionRecord(entry);
+    if (error) errors.push(messages.session(index + 1, error));
+    else sessions.push(normalizeRecord(entry as Record<string, unknown>));
+  });
+  return { sessions, errors };
+};
+
+// Drops sessions that are already stored, matched by id or by identical start time
+export const newSessionsOnly = (incoming: SessionRecord[], existing: SessionRecord[]) => {
+  const ids = new Set(existing.map(s => s.id));
+  const starts = new Set(existing.map(s => s.startedAt));
+  return incoming.filter(session => {
+    if (ids.has(session.id) || starts.has(session.startedAt)) return false;
+    ids.add(session.id);
+    starts.add(session.startedAt);
+    return true;
+  });
+};
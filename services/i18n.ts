@@ -0,0 +1,79 @@
+// Localization for Glacial Breath
+// Typed message catalogs, locale detection and Intl-based formatting. The active locale lives in a
+// small module-level store so services (announcer, validation, import errors) can read it outside React.
+
+import { en, Messages } from '../locales/en';
+import { zhCN } from '../locales/zh-CN';
+import { readStorage, writeStorage } from '../utils/storage';
+
+export type Locale = 'en' | 'zh-CN';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'zh-CN', label: '简体中文' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, 'zh-CN': zhCN };
+const STORAGE_KEY = 'glacial-breath:locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// First browser language we have a catalog for; any Chinese variant gets Simplified Chinese
+export const detectLocale = (): Locale => {
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const lower = tag?.toLowerCase() ?? '';
+    if (lower.startsWith('zh')) return 'zh-CN';
+    if (lower.startsWith('en')) return 'en';
+  }
+  return 'en';
+};
+
+const stored = readStorage<unknown>(STORAGE_KEY, null);
+let current: Locale = isLocale(stored) ? stored : detectLocale();
+const listeners = new Set<() => void>();
+
+document.documentElement.lang = current;
+
+export const getLocale = () => current;
+
+export const getMessages = (): Messages => CATALOGS[current];
+
+export const setLocale = (locale: Locale) => {
+  if (locale === current) return;
+  current = locale;
+  document.documentElement.lang = locale;
+  writeStorage(STORAGE_KEY, locale);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// -- Formatting --
+
+// Stopwatch style, e.g. 95.4 -> "1:35". Digits are locale-aware, the layout is not.
+export const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const minutes = new Intl.NumberFormat(current, { useGrouping: false });
+  const secs = new Intl.NumberFormat(current, { minimumIntegerDigits: 2 });
+  return `${minutes.format(Math.floor(whole / 60))}:${secs.format(whole % 60)}`;
+};
+
+// Spoken/read style, e.g. 95 -> "1 minute, 35 seconds" / "1分钟35秒"
+export const formatDuration = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const parts: string[] = [];
+  const unit = (value: number, name: 'minute' | 'second') =>
+    new Intl.NumberFormat(current, { style: 'unit', unit: name, unitDisplay: 'long' }).format(value);
+  if (whole >= 60) parts.push(unit(Math.floor(whole / 60), 'minute'));
+  if (whole % 60 > 0 || parts.length === 0) parts.push(unit(whole % 60, 'second'));
+  return new Intl.ListFormat(current, { style: 'narrow', type: 'unit' }).format(parts);
+};
+
+export const formatDate = (timestamp: number, options: Intl.DateTimeFormatOptions) =>
+  new Date(timestamp).toLocaleString(current, options);
@@ -0,0 +1,58 @@
+// Media Session integration for Glacial Breath
+// Lets media keys, lock-screen controls and Bluetooth headset buttons drive a session
+
+import { encodeWav } from '../utils/wav';
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  next: () => void;
+}
+
+export const isMediaSessionSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+// Browsers only route media keys to a page that is playing through a media element, and Web Audio
+// doesn't count, so a silent looping clip stands in for "now playing"
+let keepAlive: HTMLAudioElement | null = null;
+
+const getKeepAlive = () => {
+  if (keepAlive) return keepAlive;
+  const silence = new AudioBuffer({ length: 8000, sampleRate: 8000, numberOfChannels: 1 });
+  keepAlive = new Audio(URL.createObjectURL(encodeWav(silence)));
+  keepAlive.loop = true;
+  return keepAlive;
+};
+
+const setHandler = (action: MediaSessionAction, handler: (() => void) | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Action not supported by this browser
+  }
+};
+
+export const startMediaSession = (handlers: MediaSessionHandlers) => {
+  if (!isMediaSessionSupported()) return;
+  getKeepAlive().play().catch(() => {});
+  setHandler('play', handlers.play);
+  setHandler('pause', handlers.pause);
+  setHandler('stop', handlers.stop);
+  setHandler('nexttrack', handlers.next);
+};
+
+export const updateMediaSession = (title: string, status: string, paused: boolean) => {
+  if (!isMediaSessionSupported()) return;
+  navigator.mediaSession.metadata = new MediaMetadata({ title: status, artist: title, album: 'Glacial Breath' });
+  navigator.mediaSession.playbackState = paused ? 'paused' : 'playing';
+  if (paused) keepAlive?.pause();
+  else keepAlive?.play().catch(() => {});
+};
+
+export const stopMediaSession = () => {
+  if (!isMediaSessionSupported()) return;
+  keepAlive?.pause();
+  (['play', 'pause', 'stop', 'nexttrack'] as MediaSessionAction[]).forEach(action => setHandler(action, null));
+  navigator.mediaSession.metadata = null;
+  navigator.mediaSession.playbackState = 'none';
+};
@@ -0,0 +1,129 @@
+// Profiles for Glacial Breath
+// Each person on a shared device gets their own settings, presets and history; stored in localStorage
+
+import {
+  DEFAULT_HAPTIC_SETTINGS,
+  DEFAULT_PREFERENCES,
+  DEFAULT_SETTINGS,
+  DEFAULT_VOICE_SETTINGS,
+  HapticPatternId,
+  HapticSettings,
+  Profile,
+  SessionPreferences,
+  SettingsPreset,
+  VOICE_VERBOSITIES,
+  VoiceSettings,
+} from '../types';
+import { createId } from '../utils/id';
+import { readStorage, writeStorage } from '../utils/storage';
+import { clamp, oneOf, sanitizeSettings } from './settings';
+import { HAPTIC_PATTERNS } from './haptics';
+import { MAX_HOLD_OPTIONS } from './safety';
+import { getMessages } from './i18n';
+
+// Sessions recorded before profiles existed belong to this one (see the v2 migration in history.ts)
+export const DEFAULT_PROFILE_ID = 'default';
+
+const STORAGE_KEY = 'glacial-breath:profiles';
+
+export interface ProfileStore {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export const createProfile = (name: string, id: string = createId()): Profile => ({
+  id,
+  name,
+  settings: DEFAULT_SETTINGS,
+  voice: DEFAULT_VOICE_SETTINGS,
+  haptics: DEFAULT_HAPTIC_SETTINGS,
+  preferences: DEFAULT_PREFERENCES,
+  presets: [],
+});
+
+const VOICE_LIMITS = {
+  countInterval: { min: 1, max: 100 },
+  milestoneSeconds: { min: 5, max: 300 },
+};
+
+const HAPTIC_LIMITS = {
+  heartbeatSeconds: { min: 1, max: 60 },
+  intensity: { min: 0, max: 1 },
+};
+
+const HAPTIC_PATTERN_IDS = ['off', ...Object.keys(HAPTIC_PATTERNS)] as HapticPatternId[];
+
+const asObject = <T>(value: unknown) => (typeof value === 'object' && value !== null ? value : {}) as Partial<T>;
+
+const sanitizeVoice = (value: unknown): VoiceSettings => {
+  const input = asObject<VoiceSettings>(value);
+  const defaults = DEFAULT_VOICE_SETTINGS;
+  return {
+    verbosity: oneOf(input.verbosity, VOICE_VERBOSITIES, defaults.verbosity),
+    countInterval: Math.round(clamp(input.countInterval, VOICE_LIMITS.countInterval, defaults.countInterval)),
+    milestoneSeconds: Math.round(clamp(input.milestoneSeconds, VOICE_LIMITS.milestoneSeconds, defaults.milestoneSeconds)),
+    // Unknown phrase tables fall back to English when spoken, since tables can be registered at runtime
+    phrases: typeof input.phrases === 'string' ? input.phrases : defaults.phrases,
+  };
+};
+
+const sanitizeHaptics = (value: unknown): HapticSettings => {
+  const input = asObject<HapticSettings>(value);
+  const defaults = DEFAULT_HAPTIC_SETTINGS;
+  return {
+    inhale: oneOf(input.inhale, HAPTIC_PATTERN_IDS, defaults.inhale),
+    exhale: oneOf(input.exhale, HAPTIC_PATTERN_IDS, defaults.exhale),
+    retention: oneOf(input.retention, HAPTIC_PATTERN_IDS, defaults.retention),
+    heartbeatSeconds: Math.round(clamp(input.heartbeatSeconds, HAPTIC_LIMITS.heartbeatSeconds, defaults.heartbeatSeconds)),
+    recovery: oneOf(input.recovery, HAPTIC_PATTERN_IDS, defaults.recovery),
+    intensity: clamp(input.intensity, HAPTIC_LIMITS.intensity, defaults.intensity),
+    silent: typeof input.silent === 'boolean' ? input.silent : defaults.silent,
+  };
+};
+
+const sanitizePreferences = (value: unknown): SessionPreferences => {
+  const input = asObject<SessionPreferences>(value);
+  const defaults = DEFAULT_PREFERENCES;
+  const flag = (key: 'autoPauseWhenHidden' | 'confirmSafeEnvironment' | 'followMicrophone') =>
+    typeof input[key] === 'boolean' ? input[key] : defaults[key];
+  return {
+    autoPauseWhenHidden: flag('autoPauseWhenHidden'),
+    confirmSafeEnvironment: flag('confirmSafeEnvironment'),
+    maxHoldSeconds: oneOf(input.maxHoldSeconds, MAX_HOLD_OPTIONS, defaults.maxHoldSeconds),
+    followMicrophone: flag('followMicrophone'),
+  };
+};
+
+const sanitizePreset = (preset: SettingsPreset): SettingsPreset => ({
+  id: preset.id,
+  name: preset.name,
+  settings: sanitizeSettings(preset.settings),
+});
+
+// Stored profiles may predate fields added since, or hold values the app no longer offers
+const sanitizeProfile = (profile: Profile): Profile => ({
+  id: profile.id,
+  name: profile.name,
+  settings: sanitizeSettings(profile.settings),
+  voice: sanitizeVoice(profile.voice),
+  haptics: sanitizeHaptics(profile.haptics),
+  preferences: sanitizePreferences(profile.preferences),
+  presets: Array.isArray(profile.presets)
+    ? profile.presets.filter(p => typeof p?.id === 'string' && typeof p.name === 'string').map(sanitizePreset)
+    : [],
+});
+
+export const loadProfiles = (): ProfileStore => {
+  const stored = readStorage<Partial<ProfileStore>>(STORAGE_KEY, {});
+  const profiles = Array.isArray(stored.profiles)
+    ? stored.profiles.filter(p => typeof p?.id === 'string' && typeof p.name === 'string').map(sanitizeProfile)
+    : [];
+  if (profiles.length === 0) profiles.push(createProfile(getMessages().profiles.defaultName, DEFAULT_PROFILE_ID));
+
+  const activeId = profiles.some(p => p.id === stored.activeId) ? stored.activeId! : profiles[0].id;
+  return { activeId, profiles };
+};
+
+export const saveProfiles = (store: ProfileStore) => {
+  writeStorage(STORAGE_KEY, store);
+};
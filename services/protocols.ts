@@ -0,0 +1,180 @@
+// Breathing protocols for Glacial Breath
+// Built-in library plus user-defined protocols stored in localStorage
+
+import { BreathingProtocol, BreathingSettings, ProtocolStep, RoundSettings } from '../types';
+import { PrepareStep, SessionPlan, SessionStep } from './sessionEngine';
+import { readStorage, writeStorage } from '../utils/storage';
+import { getMessages } from './i18n';
+
+export const WIM_HOF_ID = 'wim-hof';
+
+// Used for duration estimates, open holds have no fixed length
+const ESTIMATED_OPEN_HOLD_MS = 90000;
+const STORAGE_KEY = 'glacial-breath:protocols';
+// Settle-in breaths are slower than any round: in for 4, out for 6
+const SETTLE_INHALE_MS = 4000;
+const SETTLE_EXHALE_MS = 6000;
+
+const paced = (inhaleS: number, holdInS: number, exhaleS: number, holdOutS: number, cycles: number): ProtocolStep => ({
+  type: 'paced',
+  inhaleMs: inhaleS * 1000,
+  holdInMs: holdInS * 1000,
+  exhaleMs: exhaleS * 1000,
+  holdOutMs: holdOutS * 1000,
+  cycles,
+});
+
+// Breaths and tempo for every Wim Hof round, with per-round overrides applied
+export const resolveRounds = (settings: BreathingSettings): RoundSettings[] => {
+  const count = settings.totalRounds + (settings.extraFinalRound ? 1 : 0);
+  return Array.from({ length: count }, (_, i) => ({
+    breathsPerRound: settings.roundOverrides[i]?.breathsPerRound ?? settings.breathsPerRound,
+    tempoMs: settings.roundOverrides[i]?.tempoMs ?? settings.tempoMs,
+  }));
+};
+
+// Each breath is split by the inhale ratio, e.g. 0.6 breathes in for 60% of the tempo and lets go for the rest
+const wimHofRound = (round: RoundSettings, settings: BreathingSettings): ProtocolStep[] => [
+  paced((round.tempoMs * settings.inhaleRatio) / 1000, 0, (round.tempoMs * (1 - settings.inhaleRatio)) / 1000, 0, round.breathsPerRound),
+  { type: 'openHold' },
+  { type: 'timedHold', durationMs: settings.recoveryHoldSeconds * 1000 },
+];
+
+// The classic round is driven by the Wim Hof controls in the settings sheet.
+// `steps` describes round 1 only; planProtocol() applies the full per-round schedule.
+export const wimHofProtocol = (settings: BreathingSettings): BreathingProtocol => ({
+  id: WIM_HOF_ID,
+  name: getMessages().protocols.names[WIM_HOF_ID],
+  builtIn: true,
+  rounds: resolveRounds(settings).length,
+  steps: wimHofRound(resolveRounds(settings)[0], settings),
+});
+
+type LibraryId = 'box' | '4-7-8' | 'coherent';
+
+const LIBRARY: (Omit<BreathingProtocol, 'name'> & { id: LibraryId })[] = [
+  {
+    id: 'box',
+    builtIn: true,
+    rounds: 1,
+    steps: [paced(4, 4, 4, 4, 15)],
+  },
+  {
+    id: '4-7-8',
+    builtIn: true,
+    rounds: 1,
+    steps: [paced(4, 7, 8, 0, 4)],
+  },
+  {
+    id: 'coherent',
+    builtIn: true,
+    rounds: 1,
+    // 60 / 5.5 ≈ 10.9s per breath, split evenly
+    steps: [paced(60 / 5.5 / 2, 0, 60 / 5.5 / 2, 0, 55)],
+  },
+];
+
+// Built-in names come from the active catalog, so they follow the language setting
+export const getBuiltInProtocols = (settings: BreathingSettings): BreathingProtocol[] => [
+  wimHofProtocol(settings),
+  ...LIBRARY.map(protocol => ({ ...protocol, name: getMessages().protocols.names[protocol.id] })),
+];
+
+export const findProtocol = (settings: BreathingSettings, custom: BreathingProtocol[]) =>
+  [...getBuiltInProtocols(settings), ...custom].find(p => p.id === settings.protocolId) ?? wimHofProtocol(settings);
+
+// The lead-in before round 1 and the optional rest before each later round
+const prepareStep = (settings: BreathingSettings, round: number): PrepareStep | null => {
+  const countdownMs = (round === 0 ? settings.prepareSeconds : settings.roundRestSeconds) * 1000;
+  const settleBreaths = round === 0 ? settings.settleBreaths : 0;
+  if (countdownMs <= 0 && settleBreaths <= 0) return null;
+  return {
+    type: 'prepare',
+    countdownMs,
+    settle: settleBreaths > 0
+      ? { type: 'paced', inhaleMs: SETTLE_INHALE_MS, holdInMs: 0, exhaleMs: SETTLE_EXHALE_MS, holdOutMs: 0, cycles: settleBreaths }
+      : null,
+  };
+};
+
+export const planProtocol = (protocol: BreathingProtocol, settings: BreathingSettings): SessionPlan => {
+  const rounds = protocol.id === WIM_HOF_ID
+    ? resolveRounds(settings).map(round => wimHofRound(round, settings))
+    : Array.from({ length: protocol.rounds }, () => protocol.steps);
+  return rounds.map((steps, i) => {
+    const prepare = prepareStep(settings, i);
+    return prepare ? [prepare, ...steps] : steps;
+  });
+};
+
+const stepDurationMs = (step: SessionStep): number => {
+  switch (step.type) {
+    case 'paced': return (step.inhaleMs + step.holdInMs + step.exhaleMs + step.holdOutMs) * step.cycles;
+    case 'openHold': return ESTIMATED_OPEN_HOLD_MS;
+    case 'timedHold':
+    case 'rest': return step.durationMs;
+    case 'prepare': return step.countdownMs + (step.settle ? stepDurationMs(step.settle) : 0);
+  }
+};
+
+export const estimatePlanMs = (plan: SessionPlan) =>
+  plan.flat().reduce((sum, step) => sum + stepDurationMs(step), 0);
+
+// Returns a human-readable problem, or null when the protocol can be run
+export const validateProtocol = (protocol: BreathingProtocol): string | null => {
+  const errors = getMessages().protocols.errors;
+  if (!protocol.name.trim()) return errors.name;
+  if (protocol.rounds < 1) return errors.rounds;
+  if (protocol.steps.length === 0) return errors.steps;
+  for (const step of protocol.steps) {
+    if (step.type === 'paced') {
+      if (step.inhaleMs <= 0 || step.exhaleMs <= 0) return errors.breathLength;
+      if (step.holdInMs < 0 || step.holdOutMs < 0) return errors.negativeHold;
+      if (step.cycles < 1) return errors.cycles;
+    }
+    if ((step.type === 'timedHold' || step.type === 'rest') && step.durationMs <= 0) {
+      return errors.timedLength;
+    }
+  }
+  return null;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isStoredStep = (value: unknown): value is ProtocolStep => {
+  if (typeof value !== 'object' || value === null) return false;
+  const step = value as Record<string, unknown>;
+  switch (step.type) {
+    case 'paced':
+      return [step.inhaleMs, step.holdInMs, step.exhaleMs, step.holdOutMs, step.cycles].every(isFiniteNumber);
+    case 'openHold':
+      return true;
+    case 'timedHold':
+    case 'rest':
+      return isFiniteNumber(step.durationMs);
+    default:
+      return false;
+  }
+};
+
+// Shape check for protocols read back from storage, which may be stale or corrupt; run before validateProtocol()
+export const isStoredProtocol = (value: unknown): value is BreathingProtocol => {
+  if (typeof value !== 'object' || value === null) return false;
+  const protocol = value as Record<string, unknown>;
+  return (
+    typeof protocol.id === 'string' &&
+    typeof protocol.name === 'string' &&
+    isFiniteNumber(protocol.rounds) &&
+    Array.isArray(protocol.steps) &&
+    protocol.steps.every(isStoredStep)
+  );
+};
+
+export const loadCustomProtocols = (): BreathingProtocol[] => {
+  const stored = readStorage<unknown>(STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored.filter(p => isStoredProtocol(p) && validateProtocol(p) === null) : [];
+};
+
+export const saveCustomProtocols = (protocols: BreathingProtocol[]) => {
+  writeStorage(STORAGE_KEY, protocols);
+};
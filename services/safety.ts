@@ -0,0 +1,36 @@
+// Safety for Glacial Breath
+// Hyperventilation followed by a breath hold can cause blackouts, so the app asks for an acknowledgement
+// of the risks on first run and watches every retention hold against a maximum.
+
+import { HoldAlarmLevel } from '../types';
+import { readStorage, writeStorage } from '../utils/storage';
+
+const STORAGE_KEY = 'glacial-breath:safety';
+
+// Bump whenever the warnings change materially so everyone reads them again
+export const SAFETY_VERSION = 1;
+
+export const needsSafetyAcknowledgement = () => readStorage<number>(STORAGE_KEY, 0) < SAFETY_VERSION;
+
+export const acknowledgeSafety = () => {
+  writeStorage(STORAGE_KEY, SAFETY_VERSION);
+};
+
+export const MAX_HOLD_OPTIONS = [90, 120, 180, 240, 300]; // seconds
+
+// How long the chime is left unanswered before the full alarm goes off
+export const ESCALATE_AFTER_S = 15;
+// The alarm repeats until someone responds
+export const ALARM_REPEAT_MS = 2000;
+
+// Vibration for each level; the alarm pattern fills most of ALARM_REPEAT_MS
+export const ALARM_VIBRATION: Record<HoldAlarmLevel, number[]> = {
+  chime: [200, 100, 200],
+  alarm: [600, 150, 600, 150, 600],
+};
+
+export const holdAlarmLevel = (elapsed: number, maxHoldSeconds: number): HoldAlarmLevel | null => {
+  if (elapsed >= maxHoldSeconds + ESCALATE_AFTER_S) return 'alarm';
+  if (elapsed >= maxHoldSeconds) return 'chime';
+  return null;
+};
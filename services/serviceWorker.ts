@@ -0,0 +1,45 @@
+// Service worker registration for Glacial Breath
+// Only production builds register sw.js; a new version waits until the user chooses to reload into it
+
+type UpdateListener = (applyUpdate: () => void) => void;
+
+const watchForWaiting = (registration: ServiceWorkerRegistration, onUpdate: UpdateListener) => {
+  const applyUpdate = () => registration.waiting?.postMessage({ type: 'SKIP_WAITING' });
+
+  // A worker may already be waiting from an earlier visit
+  if (registration.waiting && navigator.serviceWorker.controller) onUpdate(applyUpdate);
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      // Without a controller this is the first install, not an update
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) onUpdate(applyUpdate);
+    });
+  });
+};
+
+let registered = false;
+
+export const registerServiceWorker = (onUpdate: UpdateListener) => {
+  if (registered || !import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  registered = true;
+
+  // Reload once the waiting worker has taken over
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const register = () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(registration => watchForWaiting(registration, onUpdate))
+      .catch(err => console.warn('Service worker registration failed', err));
+  };
+
+  // Wait for load so registration doesn't compete with the first render for bandwidth
+  if (document.readyState === 'complete') register();
+  else window.addEventListener('load', register, { once: true });
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { SessionPhase, ProtocolStep } from '../types';
+import { SessionEvent, SessionPlan, SessionState, createSessionEngine, createVirtualClock } from './sessionEngine';
+
+const paced = (inhaleMs: number, exhaleMs: number, cycles: number): ProtocolStep => ({
+  type: 'paced',
+  inhaleMs,
+  holdInMs: 0,
+  exhaleMs,
+  holdOutMs: 0,
+  cycles,
+});
+
+// Three breaths of 2 s, an open hold, then a 2 s recovery breath
+const wimHofRound = () => [paced(1000, 1000, 3), { type: 'openHold' }, { type: 'timedHold', durationMs: 2000 }] as ProtocolStep[];
+
+const setup = () => {
+  const clock = createVirtualClock();
+  const engine = createSessionEngine(clock);
+  const events: { event: SessionEvent; state: SessionState }[] = [];
+  engine.subscribe((event, state) => events.push({ event, state }));
+  const phases = () => events.flatMap(({ event }) => (event.type === 'phase' ? [event.phase] : []));
+  return { clock, engine, events, phases };
+};
+
+describe('createSessionEngine', () => {
+  it('runs a multi-round session in order and records every hold', () => {
+    const { clock, engine, events, phases } = setup();
+    const plan: SessionPlan = [wimHofRound(), wimHofRound()];
+    engine.start(plan);
+
+    // Round 1: breathing ends after 3 × 2 s, the hold lasts 30 s
+    clock.advanceTo(6000);
+    expect(engine.getState().phase).toBe(SessionPhase.RETENTION);
+    expect(engine.getState().breathCount).toBe(3);
+    clock.advanceTo(36000);
+    engine.endRetention();
+
+    // Recovery, the gap between rounds, then round 2
+    clock.advanceTo(39000);
+    expect(engine.getState().round).toBe(2);
+    expect(engine.getState().phase).toBe(SessionPhase.BREATHING);
+    clock.advanceTo(45000);
+    clock.advanceTo(90000);
+    engine.endRetention();
+    clock.runUntilIdle();
+
+    expect(phases()).toEqual([
+      SessionPhase.BREATHING, SessionPhase.RETENTION, SessionPhase.RECOVERY,
+      SessionPhase.BREATHING, SessionPhase.RETENTION, SessionPhase.RECOVERY,
+      SessionPhase.COMPLETED,
+    ]);
+    expect(engine.getState().stats).toEqual([
+      { round: 1, retentionTime: 30 },
+      { round: 2, retentionTime: 45 },
+    ]);
+
+    // Each round's breaths are counted 1..3 on their inhales, stamped every 2 s
+    const inhales = events.filter(({ event, state }) => event.type === 'inhale' && state.phase === SessionPhase.BREATHING);
+    expect(inhales.map(({ state }) => state.breathCount)).toEqual([1, 2, 3, 1, 2, 3]);
+    expect(inhales.map(({ event }) => event.at)).toEqual([0, 2000, 4000, 39000, 41000, 43000]);
+  });
+
+  it('shifts breaths and holds by the time spent paused', () => {
+    const { clock, engine, events } = setup();
+    engine.start([wimHofRound()]);
+
+    clock.advanceTo(500);
+    engine.pause();
+    clock.advanceTo(10500);
+    expect(events.filter(({ event }) => event.type === 'exhale')).toHaveLength(0);
+
+    engine.resume();
+    expect(engine.getState().stageStartedAt).toBe(10000);
+    clock.advanceTo(11000);
+    const exhale = events.find(({ event }) => event.type === 'exhale');
+    expect(exhale?.event.at).toBe(11000);
+
+    // The hold starts at 16 s; 5 s of pausing in it doesn't count towards its time
+    clock.advanceTo(16000);
+    expect(engine.getState().phase).toBe(SessionPhase.RETENTION);
+    clock.advanceTo(20000);
+    engine.pause();
+    clock.advanceTo(25000);
+    engine.resume();
+    clock.advanceTo(26000);
+    engine.endRetention();
+    expect(engine.getState().stats).toEqual([{ round: 1, retentionTime: 5 }]);
+  });
+
+  it('resumes from a saved position', () => {
+    const { clock, engine } = setup();
+    const earlier = [{ round: 1, retentionTime: 40 }];
+    engine.start([wimHofRound(), wimHofRound()], { round: 2, step: 0, breathCount: 2, stats: earlier });
+
+    expect(engine.getState()).toMatchObject({ round: 2, step: 0, breathCount: 2, phase: SessionPhase.BREATHING });
+    // Breaths 2 and 3 are left
+    clock.advanceTo(4000);
+    expect(engine.getState().phase).toBe(SessionPhase.RETENTION);
+    clock.advanceTo(24000);
+    engine.endRetention();
+    expect(engine.getState().stats).toEqual([...earlier, { round: 2, retentionTime: 20 }]);
+  });
+
+  it('follows reported breaths and measures their rate', () => {
+    const { clock, engine } = setup();
+    engine.start([wimHofRound()], undefined, { followBreath: true });
+
+    // Three heard breaths, 3 s apart
+    for (const at of [500, 3500, 6500]) {
+      clock.advanceTo(at);
+      engine.reportBreath('inhale');
+      expect(engine.getState().breathStage).toBe('inhale');
+      clock.advanceTo(at + 1200);
+      engine.reportBreath('exhale');
+    }
+    // The last exhale gets its nominal second, then the hold starts
+    clock.advanceTo(8700);
+    expect(engine.getState().phase).toBe(SessionPhase.RETENTION);
+    clock.advanceTo(18700);
+    engine.endRetention();
+    expect(engine.getState().stats).toEqual([{ round: 1, retentionTime: 10, breathsPerMinute: 20 }]);
+  });
+
+  it('breathes on alone when nothing is heard, without inventing a rate', () => {
+    const { clock, engine } = setup();
+    engine.start([wimHofRound()], undefined, { followBreath: true });
+
+    // Each silent stretch of two cycles (4 s) stands in for one breath
+    clock.advanceTo(12000);
+    expect(engine.getState().breathCount).toBe(3);
+    clock.advanceTo(16000);
+    expect(engine.getState().phase).toBe(SessionPhase.RETENTION);
+    clock.advanceTo(26000);
+    engine.endRetention();
+    expect(engine.getState().stats).toEqual([{ round: 1, retentionTime: 10 }]);
+  });
+
+  it('clamps a saved position that no longer fits the plan', () => {
+    const { engine } = setup();
+    engine.start([wimHofRound()], { round: 4, step: 9, breathCount: 0, stats: [] });
+    expect(engine.getState()).toMatchObject({ round: 1, step: 2, phase: SessionPhase.RECOVERY });
+  });
+});
@@ -0,0 +1,567 @@
+// Session engine for Glacial Breath
+// Runs a protocol's steps round by round outside of React so it can be driven by any clock
+
+import { SessionPhase, SessionStats, ProtocolStep, HoldAlarm, HoldAlarmLevel } from '../types';
+import { BreathHalf, breathsPerMinute } from './breathDetector';
+
+const TICK_MS = 100;
+const ROUND_GAP_MS = 1000;
+const DEFAULT_CUE_MS = 1750;
+const LEAD_IN_S = 3; // countdown events for the last seconds of PREPARE
+const MISSED_BREATH_CYCLES = 2; // when following breaths, go on alone after this many silent cycles
+
+// Minimal timer surface the engine depends on; swap it for a fake clock to step time manually
+export interface Clock {
+  now: () => number; // milliseconds
+  setTimeout: (callback: () => void, ms: number) => number;
+  clearTimeout: (id: number) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+};
+
+// A clock that only moves when told to. Runs whole sessions instantly (audio export) and
+// makes the engine steppable in tests.
+export interface VirtualClock extends Clock {
+  // Fires every timer due up to `time`, in order, then leaves the clock there
+  advanceTo: (time: number) => void;
+  // Fires timers until none are left or `limit` is reached
+  runUntilIdle: (limit?: number) => void;
+}
+
+export const createVirtualClock = (): VirtualClock => {
+  const pending = new Map<number, { due: number; callback: () => void }>();
+  let current = 0;
+  let nextId = 1;
+
+  const nextDue = () => {
+    let next: [number, { due: number; callback: () => void }] | null = null;
+    pending.forEach((timer, id) => {
+      if (!next || timer.due < next[1].due) next = [id, timer];
+    });
+    return next as [number, { due: number; callback: () => void }] | null;
+  };
+
+  const advanceTo = (time: number) => {
+    for (let next = nextDue(); next && next[1].due <= time; next = nextDue()) {
+      pending.delete(next[0]);
+      current = Math.max(current, next[1].due);
+      next[1].callback();
+    }
+    current = Math.max(current, time);
+  };
+
+  return {
+    now: () => current,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      pending.set(id, { due: current + ms, callback });
+      return id;
+    },
+    clearTimeout: (id) => {
+      pending.delete(id);
+    },
+    advanceTo,
+    runUntilIdle: (limit = Infinity) => {
+      for (let next = nextDue(); next && next[1].due <= limit; next = nextDue()) {
+        advanceTo(next[1].due);
+      }
+    },
+  };
+};
+
+type PacedStep = Extract<ProtocolStep, { type: 'paced' }>;
+
+// Settling in before a round: optional relaxed breaths, then a countdown. Not part of any protocol;
+// planProtocol() adds one ahead of the first round and, if asked, between rounds.
+export interface PrepareStep {
+  type: 'prepare';
+  countdownMs: number;
+  settle: PacedStep | null;
+}
+
+export type SessionStep = ProtocolStep | PrepareStep;
+
+// The steps to run for each round, in order
+export type SessionPlan = SessionStep[][];
+
+export type BreathStage = 'inhale' | 'holdIn' | 'exhale' | 'holdOut';
+
+export interface SessionState {
+  phase: SessionPhase;
+  round: number;
+  totalRounds: number;
+  step: number; // index of the running step within the round
+  breathCount: number;
+  breathTarget: number; // cycles in the current paced step
+  breathStage: BreathStage;
+  isInhale: boolean; // lungs filling or full
+  elapsed: number; // seconds since the current phase started
+  phaseDurationMs: number; // 0 when the phase is open-ended
+  stageStartedAt: number; // clock time the current inhale/exhale/hold began
+  stageDurationMs: number;
+  paused: boolean;
+  holdAlarms: HoldAlarm[]; // raised during the current retention hold
+  stats: SessionStats[];
+}
+
+type SessionEventBody =
+  | { type: 'phase'; phase: SessionPhase }
+  | { type: 'inhale'; durationMs: number }
+  | { type: 'exhale'; durationMs: number }
+  | { type: 'hold'; durationMs: number }
+  | { type: 'bell' }
+  | { type: 'tick'; elapsed: number }
+  | { type: 'countdown'; remaining: number } // whole seconds left of PREPARE
+  | { type: 'pause' }
+  | { type: 'resume' };
+
+// `at` is the clock time the event is due, which may be slightly ahead of clock.now() with a lookahead clock
+export type SessionEvent = SessionEventBody & { at: number };
+
+export type SessionListener = (event: SessionEvent, state: SessionState) => void;
+
+// Where to pick a session back up, e.g. after a reload. Holds and rests restart from their beginning.
+export interface SessionPosition {
+  round: number;
+  step: number;
+  breathCount: number;
+  stats: SessionStats[];
+}
+
+export interface StartOptions {
+  // Paced breathing waits for reportBreath() instead of keeping time itself
+  followBreath?: boolean;
+}
+
+export interface SessionEngine {
+  start: (plan: SessionPlan, from?: SessionPosition, options?: StartOptions) => void;
+  reportBreath: (stage: BreathHalf) => void;
+  endRetention: () => void;
+  skipPrepare: () => void;
+  recordHoldAlarm: (level: HoldAlarmLevel) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  getState: () => SessionState;
+  subscribe: (listener: SessionListener) => () => void;
+}
+
+const INITIAL_STATE: SessionState = {
+  phase: SessionPhase.IDLE,
+  round: 1,
+  totalRounds: 0,
+  step: 0,
+  breathCount: 0,
+  breathTarget: 0,
+  breathStage: 'exhale',
+  isInhale: false,
+  elapsed: 0,
+  phaseDurationMs: 0,
+  stageStartedAt: 0,
+  stageDurationMs: 0,
+  paused: false,
+  holdAlarms: [],
+  stats: [],
+};
+
+const STAGES: BreathStage[] = ['inhale', 'holdIn', 'exhale', 'holdOut'];
+
+const stageDuration = (step: PacedStep, stage: BreathStage) => {
+  switch (stage) {
+    case 'inhale': return step.inhaleMs;
+    case 'holdIn': return step.holdInMs;
+    case 'exhale': return step.exhaleMs;
+    case 'holdOut': return step.holdOutMs;
+  }
+};
+
+const stepDurationMs = (step: PacedStep) =>
+  (step.inhaleMs + step.holdInMs + step.exhaleMs + step.holdOutMs) * step.cycles;
+
+export const createSessionEngine = (clock: Clock = systemClock): SessionEngine => {
+  let state: SessionState = INITIAL_STATE;
+  let plan: SessionPlan = [];
+  let stepIndex = 0;
+  let timerId: number | null = null;
+  let pending: { at: number; callback: () => void } | null = null; // survives a pause
+  let pausedAt = 0;
+  let phaseStartedAt = 0;
+  let cursor = 0; // nominal clock time of the transition being processed
+  let stageOffsetMs = 0;
+  let lastInhaleMs = DEFAULT_CUE_MS;
+  let followBreath = false;
+  let inhaleTimes: number[] = []; // breaths heard this round, for its rate
+  const listeners = new Set<SessionListener>();
+
+  const emit = (body: SessionEventBody) => {
+    const event = { ...body, at: cursor } as SessionEvent;
+    listeners.forEach(listener => listener(event, state));
+  };
+
+  const update = (patch: Partial<SessionState>) => {
+    state = { ...state, ...patch };
+  };
+
+  const clearTimer = () => {
+    if (timerId !== null) {
+      clock.clearTimeout(timerId);
+      timerId = null;
+    }
+  };
+
+  // Timers are scheduled against absolute times and every transition is stamped with the time
+  // it was due rather than when the callback ran, so late or early callbacks never accumulate drift
+  const scheduleAt = (at: number, callback: () => void) => {
+    clearTimer();
+    pending = { at, callback };
+    timerId = clock.setTimeout(() => {
+      timerId = null;
+      pending = null;
+      cursor = at;
+      callback();
+    }, Math.max(0, at - clock.now()));
+  };
+
+  const enterPhase = (phase: SessionPhase, patch: Partial<SessionState> = {}) => {
+    phaseStartedAt = cursor;
+    update({ phaseDurationMs: 0, ...patch, phase, elapsed: 0 });
+    emit({ type: 'phase', phase });
+  };
+
+  const currentStep = () => plan[state.round - 1][stepIndex];
+
+  // -- Paced breathing --
+
+  const emitStage = (step: PacedStep, stage: BreathStage) => {
+    const durationMs = stageDuration(step, stage);
+    update({ stageStartedAt: cursor, stageDurationMs: durationMs });
+    if (stage === 'inhale') {
+      lastInhaleMs = durationMs;
+      emit({ type: 'inhale', durationMs });
+    } else if (stage === 'exhale') {
+      emit({ type: 'exhale', durationMs });
+    } else {
+      emit({ type: 'hold', durationMs });
+    }
+  };
+
+  const scheduleStage = (step: PacedStep) => {
+    stageOffsetMs += stageDuration(step, state.breathStage);
+    scheduleAt(phaseStartedAt + stageOffsetMs, () => advanceStage(step));
+  };
+
+  const advanceStage = (step: PacedStep) => {
+    // Skip zero-length holds
+    let index = STAGES.indexOf(state.breathStage);
+    do {
+      index = (index + 1) % STAGES.length;
+    } while (stageDuration(step, STAGES[index]) <= 0);
+
+    const stage = STAGES[index];
+    if (stage === 'inhale') {
+      if (state.breathCount >= step.cycles) {
+        if (state.phase === SessionPhase.PREPARE) startCountdown();
+        else nextStep();
+        return;
+      }
+      update({ breathCount: state.breathCount + 1 });
+    }
+    update({ breathStage: stage, isInhale: stage === 'inhale' || stage === 'holdIn' });
+    emitStage(step, stage);
+    scheduleStage(step);
+  };
+
+  const breathsPatch = (step: PacedStep, firstBreath: number): Partial<SessionState> => ({
+    breathCount: Math.min(firstBreath, step.cycles),
+    breathTarget: step.cycles,
+    breathStage: 'inhale',
+    isInhale: true,
+  });
+
+  // Call after entering the phase with breathsPatch()
+  const startBreaths = (step: PacedStep) => {
+    stageOffsetMs = 0;
+    emitStage(step, 'inhale');
+    scheduleStage(step);
+  };
+
+  const startPaced = (step: PacedStep, firstBreath: number) => {
+    if (followBreath) {
+      startFollowing(step, firstBreath);
+      return;
+    }
+    enterPhase(SessionPhase.BREATHING, breathsPatch(step, firstBreath));
+    startBreaths(step);
+  };
+
+  // -- Following real breaths --
+
+  // Breaths come from reportBreath(); the step's durations only size the cues. If nothing is heard
+  // for a while the engine breathes on by itself, so a quiet microphone slows a round but never stalls it.
+  const startFollowing = (step: PacedStep, firstBreath: number) => {
+    enterPhase(SessionPhase.BREATHING, {
+      breathCount: Math.min(firstBreath, step.cycles + 1) - 1,
+      breathTarget: step.cycles,
+      breathStage: 'holdOut',
+      isInhale: false,
+      stageStartedAt: cursor,
+      stageDurationMs: 0,
+    });
+    scheduleMissedBreath(step);
+  };
+
+  const scheduleMissedBreath = (step: PacedStep) => {
+    const cycleMs = step.inhaleMs + step.holdInMs + step.exhaleMs + step.holdOutMs;
+    scheduleAt(cursor + cycleMs * MISSED_BREATH_CYCLES, () => followStage(step, 'inhale', false));
+  };
+
+  // `heard` is false for the breaths the engine takes by itself; only real ones count towards the rate
+  const followStage = (step: PacedStep, stage: BreathHalf, heard: boolean) => {
+    if (stage === 'inhale') {
+      if (state.breathCount >= step.cycles) {
+        nextStep();
+        return;
+      }
+      if (heard) inhaleTimes.push(cursor);
+      update({ breathCount: state.breathCount + 1 });
+    } else if (state.breathStage !== 'inhale') {
+      return; // an exhale without an inhale before it
+    }
+    update({ breathStage: stage, isInhale: stage === 'inhale' });
+    emitStage(step, stage);
+    // After the last exhale, move on once it has had its time
+    if (stage === 'exhale' && state.breathCount >= step.cycles) scheduleAt(cursor + step.exhaleMs, nextStep);
+    else scheduleMissedBreath(step);
+  };
+
+  const reportBreath = (stage: BreathHalf) => {
+    if (!followBreath || state.paused || state.phase !== SessionPhase.BREATHING) return;
+    const step = currentStep();
+    if (step.type !== 'paced') return;
+    cursor = clock.now();
+    followStage(step, stage, true);
+  };
+
+  // -- Holds & Rests --
+
+  const scheduleTick = () => {
+    const elapsedMs = cursor - phaseStartedAt;
+    scheduleAt(phaseStartedAt + (Math.floor(elapsedMs / TICK_MS) + 1) * TICK_MS, onTick);
+  };
+
+  const onTick = () => {
+    const elapsed = (cursor - phaseStartedAt) / 1000;
+    update({ elapsed });
+    emit({ type: 'tick', elapsed });
+    if (state.phase === SessionPhase.PREPARE) {
+      const remainingTenths = Math.round(state.phaseDurationMs / TICK_MS) - Math.round(elapsed * 10);
+      if (remainingTenths > 0 && remainingTenths <= LEAD_IN_S * 10 && remainingTenths % 10 === 0) {
+        emit({ type: 'countdown', remaining: remainingTenths / 10 });
+      }
+    }
+    if (state.phaseDurationMs > 0 && elapsed * 1000 >= state.phaseDurationMs) {
+      nextStep();
+      return;
+    }
+    scheduleTick();
+  };
+
+  // One PREPARE phase covers the settle-in breaths and the countdown after them, so
+  // phaseDurationMs is the whole lead-in and the countdown is always its tail
+  const startPrepare = (step: PrepareStep) => {
+    const settleMs = step.settle ? stepDurationMs(step.settle) : 0;
+    enterPhase(SessionPhase.PREPARE, {
+      phaseDurationMs: settleMs + step.countdownMs,
+      ...(step.settle ? breathsPatch(step.settle, 1) : { breathCount: 0, breathTarget: 0, breathStage: 'holdOut', isInhale: false }),
+    });
+    if (step.settle) startBreaths(step.settle);
+    else startCountdown();
+  };
+
+  // The countdown is the one 'holdOut' stretch of PREPARE; its stage spans what is left of the phase
+  const startCountdown = () => {
+    const remainingMs = phaseStartedAt + state.phaseDurationMs - cursor;
+    update({ elapsed: (cursor - phaseStartedAt) / 1000, breathStage: 'holdOut', isInhale: false, stageStartedAt: cursor, stageDurationMs: remainingMs });
+    if (remainingMs <= 0) {
+      nextStep();
+      return;
+    }
+    scheduleTick();
+  };
+
+  const skipPrepare = () => {
+    if (state.phase !== SessionPhase.PREPARE) return;
+    if (state.paused) resume();
+    cursor = clock.now();
+    nextStep();
+  };
+
+  const startRetention = () => {
+    enterPhase(SessionPhase.RETENTION, { breathStage: 'holdOut', isInhale: false, stageStartedAt: cursor, stageDurationMs: 0, holdAlarms: [] });
+    emit({ type: 'bell' });
+    scheduleTick();
+  };
+
+  const endRetention = () => {
+    if (state.phase !== SessionPhase.RETENTION) return;
+    if (state.paused) resume();
+    cursor = clock.now();
+    const retentionTime = (cursor - phaseStartedAt) / 1000;
+    const stat: SessionStats = { round: state.round, retentionTime };
+    if (state.holdAlarms.length > 0) stat.alarms = state.holdAlarms;
+    const rate = followBreath ? breathsPerMinute(inhaleTimes) : null;
+    if (rate !== null) stat.breathsPerMinute = Math.round(rate * 10) / 10;
+    update({ stats: [...state.stats, stat], holdAlarms: [] });
+    nextStep();
+  };
+
+  // Each level is kept once per hold, stamped with how far into the hold it went off
+  const recordHoldAlarm = (level: HoldAlarmLevel) => {
+    if (state.phase !== SessionPhase.RETENTION || state.holdAlarms.some(alarm => alarm.level === level)) return;
+    const at = ((state.paused ? pausedAt : clock.now()) - phaseStartedAt) / 1000;
+    update({ holdAlarms: [...state.holdAlarms, { level, at }] });
+  };
+
+  const startTimedHold = (durationMs: number) => {
+    enterPhase(SessionPhase.RECOVERY, {
+      breathStage: 'holdIn',
+      isInhale: true,
+      phaseDurationMs: durationMs,
+      stageStartedAt: cursor,
+      stageDurationMs: lastInhaleMs,
+    });
+    emit({ type: 'inhale', durationMs: lastInhaleMs });
+    scheduleTick();
+  };
+
+  const startRest = (durationMs: number) => {
+    enterPhase(SessionPhase.REST, {
+      breathStage: 'exhale',
+      isInhale: false,
+      phaseDurationMs: durationMs,
+      stageStartedAt: cursor,
+      stageDurationMs: durationMs,
+    });
+    scheduleTick();
+  };
+
+  // -- Sequencing --
+
+  const runStep = (firstBreath = 1) => {
+    const step = currentStep();
+    update({ step: stepIndex });
+    switch (step.type) {
+      case 'paced': startPaced(step, firstBreath); break;
+      case 'openHold': startRetention(); break;
+      case 'timedHold': startTimedHold(step.durationMs); break;
+      case 'rest': startRest(step.durationMs); break;
+      case 'prepare': startPrepare(step); break;
+    }
+  };
+
+  const startRound = (round: number, firstStep = 0, firstBreath = 1) => {
+    stepIndex = firstStep;
+    inhaleTimes = [];
+    update({ round });
+    runStep(firstBreath);
+  };
+
+  const nextStep = () => {
+    stepIndex += 1;
+    if (stepIndex < plan[state.round - 1].length) {
+      runStep();
+      return;
+    }
+    finishRound();
+  };
+
+  const finishRound = () => {
+    if (state.round >= plan.length) {
+      clearTimer();
+      enterPhase(SessionPhase.COMPLETED);
+      emit({ type: 'bell' });
+      return;
+    }
+    const nextRound = state.round + 1;
+    // A round that opens with its own PREPARE needs no extra gap
+    if (plan[nextRound - 1][0].type === 'prepare') {
+      startRound(nextRound);
+      return;
+    }
+    scheduleAt(cursor + ROUND_GAP_MS, () => startRound(nextRound));
+  };
+
+  // -- Public API --
+
+  const start = (nextPlan: SessionPlan, from?: SessionPosition, options: StartOptions = {}) => {
+    clearTimer();
+    pending = null;
+    plan = nextPlan.filter(steps => steps.length > 0);
+    if (plan.length === 0) return;
+    cursor = clock.now();
+    lastInhaleMs = DEFAULT_CUE_MS;
+    followBreath = options.followBreath ?? false;
+    update({ stats: from?.stats ?? [], totalRounds: plan.length, paused: false });
+    if (!from) {
+      startRound(1);
+      return;
+    }
+    // Clamp in case the plan changed shape since the position was recorded
+    const round = Math.min(Math.max(1, from.round), plan.length);
+    const step = Math.min(Math.max(0, from.step), plan[round - 1].length - 1);
+    startRound(round, step, Math.max(1, from.breathCount));
+  };
+
+  // Pausing parks the next transition; resuming shifts it and every phase/stage origin by the
+  // time spent paused, so breath cycles, stopwatches and countdowns carry on exactly where they were
+  const pause = () => {
+    if (state.paused || state.phase === SessionPhase.IDLE || state.phase === SessionPhase.COMPLETED) return;
+    clearTimer();
+    pausedAt = cursor = clock.now();
+    update({ paused: true });
+    emit({ type: 'pause' });
+  };
+
+  const resume = () => {
+    if (!state.paused) return;
+    cursor = clock.now();
+    const shift = cursor - pausedAt;
+    phaseStartedAt += shift;
+    update({ paused: false, stageStartedAt: state.stageStartedAt + shift });
+    emit({ type: 'resume' });
+    if (pending) scheduleAt(pending.at + shift, pending.callback);
+  };
+
+  const stop = () => {
+    clearTimer();
+    pending = null;
+    cursor = clock.now();
+    plan = [];
+    state = INITIAL_STATE;
+    emit({ type: 'phase', phase: SessionPhase.IDLE });
+  };
+
+  const subscribe = (listener: SessionListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    start,
+    reportBreath,
+    endRetention,
+    skipPrepare,
+    recordHoldAlarm,
+    pause,
+    resume,
+    stop,
+    getState: () => state,
+    subscribe,
+  };
+};
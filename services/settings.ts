@@ -0,0 +1,48 @@
+// Breathing settings validation for Glacial Breath
+// Everything that reaches the engine from storage, presets or free-form inputs goes through sanitizeSettings
+
+import { BreathingSettings, DEFAULT_SETTINGS, RoundSettings } from '../types';
+
+export const SETTINGS_LIMITS = {
+  breathsPerRound: { min: 5, max: 100 },
+  tempoMs: { min: 1000, max: 10000 },
+  inhaleRatio: { min: 0.25, max: 0.75 },
+  totalRounds: { min: 1, max: 10 },
+  recoveryHoldSeconds: { min: 10, max: 30 },
+  prepareSeconds: { min: 0, max: 60 },
+  settleBreaths: { min: 0, max: 10 },
+  roundRestSeconds: { min: 0, max: 60 },
+};
+
+export const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const oneOf = <T>(value: unknown, options: readonly T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const sanitizeOverride = (override: unknown): Partial<RoundSettings> => {
+  if (typeof override !== 'object' || override === null) return {};
+  const { breathsPerRound, tempoMs } = override as Partial<RoundSettings>;
+  const result: Partial<RoundSettings> = {};
+  if (breathsPerRound !== undefined) result.breathsPerRound = Math.round(clamp(breathsPerRound, SETTINGS_LIMITS.breathsPerRound, DEFAULT_SETTINGS.breathsPerRound));
+  if (tempoMs !== undefined) result.tempoMs = clamp(tempoMs, SETTINGS_LIMITS.tempoMs, DEFAULT_SETTINGS.tempoMs);
+  return result;
+};
+
+// Fills in missing fields and pulls out-of-range values back inside SETTINGS_LIMITS
+export const sanitizeSettings = (value: unknown): BreathingSettings => {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<BreathingSettings>;
+  return {
+    breathsPerRound: Math.round(clamp(input.breathsPerRound, SETTINGS_LIMITS.breathsPerRound, DEFAULT_SETTINGS.breathsPerRound)),
+    tempoMs: Math.round(clamp(input.tempoMs, SETTINGS_LIMITS.tempoMs, DEFAULT_SETTINGS.tempoMs)),
+    inhaleRatio: clamp(input.inhaleRatio, SETTINGS_LIMITS.inhaleRatio, DEFAULT_SETTINGS.inhaleRatio),
+    totalRounds: Math.round(clamp(input.totalRounds, SETTINGS_LIMITS.totalRounds, DEFAULT_SETTINGS.totalRounds)),
+    roundOverrides: Array.isArray(input.roundOverrides) ? input.roundOverrides.map(sanitizeOverride) : [],
+    recoveryHoldSeconds: Math.round(clamp(input.recoveryHoldSeconds, SETTINGS_LIMITS.recoveryHoldSeconds, DEFAULT_SETTINGS.recoveryHoldSeconds)),
+    extraFinalRound: typeof input.extraFinalRound === 'boolean' ? input.extraFinalRound : DEFAULT_SETTINGS.extraFinalRound,
+    protocolId: typeof input.protocolId === 'string' ? input.protocolId : DEFAULT_SETTINGS.protocolId,
+    prepareSeconds: Math.round(clamp(input.prepareSeconds, SETTINGS_LIMITS.prepareSeconds, DEFAULT_SETTINGS.prepareSeconds)),
+    settleBreaths: Math.round(clamp(input.settleBreaths, SETTINGS_LIMITS.settleBreaths, DEFAULT_SETTINGS.settleBreaths)),
+    roundRestSeconds: Math.round(clamp(input.roundRestSeconds, SETTINGS_LIMITS.roundRestSeconds, DEFAULT_SETTINGS.roundRestSeconds)),
+  };
+};
@@ -0,0 +1,212 @@
+// Procedural ambient soundscapes for Glacial Breath
+// Everything is synthesized from generated noise and oscillators, no audio assets required
+
+import { BinauralBeat, SessionPhase, SoundscapeId } from '../types';
+import { getAmbienceInput, getAudioContext } from './audio';
+
+const NOISE_SECONDS = 8; // long enough that the loop point isn't noticeable under filtering
+const CROSSFADE_S = 2.5;
+const MOOD_TIME_CONSTANT_S = 1.5;
+const BINAURAL_CARRIER_HZ = 200;
+const BINAURAL_GAIN = 0.05;
+
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+// How each phase colours the background: filter opening relative to base, and loudness
+type Mood = 'breathing' | 'retention' | 'recovery';
+const MOODS: Record<Mood, { brightness: number; level: number }> = {
+  breathing: { brightness: 1, level: 1 },
+  retention: { brightness: 0.45, level: 0.6 }, // calmer and darker
+  recovery: { brightness: 1.7, level: 1.1 }, // brighter
+};
+
+const BINAURAL_BEAT_HZ: Record<Exclude<BinauralBeat, 'off'>, number> = {
+  theta: 6,
+  alpha: 10,
+};
+
+interface Soundscape {
+  output: GainNode;
+  filter: BiquadFilterNode;
+  baseFrequency: number;
+  baseGain: number;
+  sources: AudioScheduledSourceNode[];
+}
+
+const noiseBuffers = new Map<NoiseColor, AudioBuffer>();
+
+// Pink uses Paul Kellet's economy filter, brown is integrated white noise
+const getColoredNoise = (ctx: AudioContext, color: NoiseColor) => {
+  const cached = noiseBuffers.get(color);
+  if (cached) return cached;
+
+  const length = ctx.sampleRate * NOISE_SECONDS;
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'white') {
+      data[i] = white;
+    } else if (color === 'pink') {
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    } else {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    }
+  }
+  noiseBuffers.set(color, buffer);
+  return buffer;
+};
+
+const noiseSource = (ctx: AudioContext, color: NoiseColor) => {
+  const source = ctx.createBufferSource();
+  source.buffer = getColoredNoise(ctx, color);
+  source.loop = true;
+  return source;
+};
+
+// Slow oscillator modulating `param` by +/- depth around its current value
+const lfo = (ctx: AudioContext, frequency: number, depth: number, param: AudioParam) => {
+  const osc = ctx.createOscillator();
+  osc.frequency.value = frequency;
+  const gain = ctx.createGain();
+  gain.gain.value = depth;
+  osc.connect(gain).connect(param);
+  return osc;
+};
+
+const buildSoundscape = (ctx: AudioContext, id: Exclude<SoundscapeId, 'none'>): Soundscape => {
+  const output = ctx.createGain();
+  output.gain.value = 0;
+  const filter = ctx.createBiquadFilter();
+  filter.connect(output);
+
+  switch (id) {
+    case 'wind': {
+      // Band-passed brown noise with slow gusts sweeping the band
+      const noise = noiseSource(ctx, 'brown');
+      filter.type = 'bandpass';
+      filter.Q.value = 0.8;
+      filter.frequency.value = 500;
+      noise.connect(filter);
+      const gusts = lfo(ctx, 0.07, 250, filter.frequency);
+      return { output, filter, baseFrequency: 500, baseGain: 0.5, sources: [noise, gusts] };
+    }
+    case 'ocean': {
+      // Low-passed pink noise swelling in and out like waves
+      const noise = noiseSource(ctx, 'pink');
+      const swell = ctx.createGain();
+      swell.gain.value = 0.6;
+      filter.type = 'lowpass';
+      filter.frequency.value = 900;
+      noise.connect(swell).connect(filter);
+      const waves = lfo(ctx, 0.1, 0.4, swell.gain);
+      return { output, filter, baseFrequency: 900, baseGain: 0.45, sources: [noise, waves] };
+    }
+    case 'rain': {
+      // Bright white noise with the lows removed
+      const noise = noiseSource(ctx, 'white');
+      const highpass = ctx.createBiquadFilter();
+      highpass.type = 'highpass';
+      highpass.frequency.value = 1200;
+      filter.type = 'lowpass';
+      filter.frequency.value = 6000;
+      noise.connect(highpass).connect(filter);
+      return { output, filter, baseFrequency: 6000, baseGain: 0.12, sources: [noise] };
+    }
+    case 'drone': {
+      // Slightly detuned root and fifth for a slow beating pad
+      filter.type = 'lowpass';
+      filter.frequency.value = 600;
+      const sources = [110, 110.4, 164.8].map(frequency => {
+        const osc = ctx.createOscillator();
+        osc.type = 'triangle';
+        osc.frequency.value = frequency;
+        osc.connect(filter);
+        return osc;
+      });
+      return { output, filter, baseFrequency: 600, baseGain: 0.08, sources };
+    }
+  }
+};
+
+// Two pure tones, one per ear, whose difference is the beat frequency
+const buildBinaural = (ctx: AudioContext, beat: Exclude<BinauralBeat, 'off'>): Soundscape => {
+  const output = ctx.createGain();
+  output.gain.value = 0;
+  // Far above the carriers, so it leaves the tones alone but lets moods treat every layer alike
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 2000;
+  filter.connect(output);
+
+  const sources = [-1, 1].map(pan => {
+    const osc = ctx.createOscillator();
+    osc.frequency.value = BINAURAL_CARRIER_HZ + (pan > 0 ? BINAURAL_BEAT_HZ[beat] : 0);
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    osc.connect(panner).connect(filter);
+    return osc;
+  });
+  return { output, filter, baseFrequency: 2000, baseGain: BINAURAL_GAIN, sources };
+};
+
+let active: Soundscape[] = [];
+let currentMood: Mood = 'breathing';
+
+const applyMood = (ctx: AudioContext, layer: Soundscape, mood: Mood) => {
+  const t = ctx.currentTime;
+  const { brightness, level } = MOODS[mood];
+  layer.filter.frequency.setTargetAtTime(layer.baseFrequency * brightness, t, MOOD_TIME_CONSTANT_S);
+  layer.output.gain.setTargetAtTime(layer.baseGain * level, t, MOOD_TIME_CONSTANT_S);
+};
+
+const fadeOut = (ctx: AudioContext, layers: Soundscape[]) => {
+  const t = ctx.currentTime;
+  layers.forEach(layer => {
+    layer.output.gain.cancelScheduledValues(t);
+    layer.output.gain.setValueAtTime(layer.output.gain.value, t);
+    layer.output.gain.linearRampToValueAtTime(0, t + CROSSFADE_S);
+    layer.sources.forEach(source => source.stop(t + CROSSFADE_S + 0.1));
+  });
+};
+
+// Crossfades from whatever is playing to the chosen soundscape and binaural pair
+export const startSoundscape = (id: SoundscapeId, binaural: BinauralBeat) => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  fadeOut(ctx, active);
+  active = [];
+
+  if (id !== 'none') active.push(buildSoundscape(ctx, id));
+  if (binaural !== 'off') active.push(buildBinaural(ctx, binaural));
+
+  const input = getAmbienceInput(ctx);
+  currentMood = 'breathing';
+  active.forEach(layer => {
+    layer.output.connect(input);
+    layer.sources.forEach(source => source.start());
+    applyMood(ctx, layer, currentMood);
+  });
+};
+
+export const setSoundscapeMood = (phase: SessionPhase) => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  const mood: Mood = phase === SessionPhase.RETENTION ? 'retention' : phase === SessionPhase.RECOVERY ? 'recovery' : 'breathing';
+  if (mood === currentMood) return;
+  currentMood = mood;
+  active.forEach(layer => applyMood(ctx, layer, mood));
+};
+
+export const stopSoundscape = () => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  fadeOut(ctx, active);
+  active = [];
+};
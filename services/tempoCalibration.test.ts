@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { SETTINGS_LIMITS } from './settings';
+import { CALIBRATION_TAPS, calibrateTempo, nextTapIsInhale } from './tempoCalibration';
+
+// Tap times for breaths given as [inhale ms, exhale ms], with the closing inhale tap
+const tapsFor = (breaths: [number, number][]) => {
+  const taps = [0];
+  breaths.forEach(([inhaleMs, exhaleMs]) => {
+    const start = taps[taps.length - 1];
+    taps.push(start + inhaleMs, start + inhaleMs + exhaleMs);
+  });
+  return taps;
+};
+
+describe('calibrateTempo', () => {
+  it('measures the tempo and inhale share of steady breaths', () => {
+    const taps = tapsFor([[1200, 1800], [1200, 1800], [1200, 1800], [1200, 1800]]);
+    expect(taps).toHaveLength(CALIBRATION_TAPS);
+    expect(calibrateTempo(taps)).toEqual({ tempoMs: 3000, inhaleRatio: 0.4 });
+  });
+
+  it('snaps to the slider steps', () => {
+    expect(calibrateTempo(tapsFor([[1190, 1720], [1210, 1720], [1200, 1720]]))).toEqual({ tempoMs: 2900, inhaleRatio: 0.4 });
+  });
+
+  it('ignores one outlying breath', () => {
+    const taps = tapsFor([[1200, 1800], [1200, 1800], [3000, 6000], [1200, 1800]]);
+    expect(calibrateTempo(taps)).toEqual({ tempoMs: 3000, inhaleRatio: 0.4 });
+  });
+
+  it('needs at least one full breath', () => {
+    expect(calibrateTempo([])).toBeNull();
+    expect(calibrateTempo([0])).toBeNull();
+    expect(calibrateTempo([0, 1000])).toBeNull();
+    expect(calibrateTempo([0, 1000, 2500])).toEqual({ tempoMs: 2500, inhaleRatio: 0.4 });
+  });
+
+  it('skips breaths with doubled or out-of-order taps', () => {
+    // The first inhale was tapped twice, so only the second breath counts
+    expect(calibrateTempo([0, 0, 3000, 4200, 6000])).toEqual({ tempoMs: 3000, inhaleRatio: 0.4 });
+    expect(calibrateTempo([0, 1000, 500])).toBeNull();
+  });
+
+  it('clamps to the settings limits', () => {
+    const { tempoMs, inhaleRatio } = SETTINGS_LIMITS;
+    expect(calibrateTempo(tapsFor([[200, 300], [200, 300]]))).toEqual({ tempoMs: tempoMs.min, inhaleRatio: 0.4 });
+    expect(calibrateTempo(tapsFor([[8000, 12000], [8000, 12000]]))).toEqual({ tempoMs: tempoMs.max, inhaleRatio: 0.4 });
+    expect(calibrateTempo(tapsFor([[100, 2900], [100, 2900]]))?.inhaleRatio).toBe(inhaleRatio.min);
+    expect(calibrateTempo(tapsFor([[2800, 200], [2800, 200]]))?.inhaleRatio).toBe(inhaleRatio.max);
+  });
+});
+
+describe('nextTapIsInhale', () => {
+  it('alternates starting with an inhale', () => {
+    expect([0, 1, 2, 3].map(count => nextTapIsInhale(Array(count).fill(0)))).toEqual([true, false, true, false]);
+  });
+});
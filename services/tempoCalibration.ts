@@ -0,0 +1,47 @@
+// Tap-to-pace calibration for Glacial Breath
+// The user taps as each inhale starts and again as each exhale starts, alternating, for a few breaths.
+// Medians keep one late or doubled tap from skewing the result.
+
+import { SETTINGS_LIMITS } from './settings';
+
+export const CALIBRATION_BREATHS = 4;
+// Each breath is measured up to the next inhale, so the last one needs a closing tap
+export const CALIBRATION_TAPS = CALIBRATION_BREATHS * 2 + 1;
+
+const TEMPO_STEP_MS = 100; // matches the speed slider
+const RATIO_STEP = 0.05;
+
+export interface TempoCalibration {
+  tempoMs: number;
+  inhaleRatio: number;
+}
+
+// Whether the next tap marks the start of an inhale
+export const nextTapIsInhale = (taps: number[]) => taps.length % 2 === 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const snap = (value: number, step: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, Math.round(value / step) * step));
+
+// Tap times in ms, starting with an inhale; null until at least one full breath has been tapped
+export const calibrateTempo = (taps: number[]): TempoCalibration | null => {
+  const cycles: number[] = [];
+  const ratios: number[] = [];
+  for (let i = 0; i + 2 < taps.length; i += 2) {
+    const inhaleMs = taps[i + 1] - taps[i];
+    const cycleMs = taps[i + 2] - taps[i];
+    if (inhaleMs <= 0 || cycleMs <= inhaleMs) continue;
+    cycles.push(cycleMs);
+    ratios.push(inhaleMs / cycleMs);
+  }
+  if (cycles.length === 0) return null;
+  return {
+    tempoMs: snap(median(cycles), TEMPO_STEP_MS, SETTINGS_LIMITS.tempoMs),
+    inhaleRatio: Math.round(snap(median(ratios), RATIO_STEP, SETTINGS_LIMITS.inhaleRatio) * 100) / 100,
+  };
+};
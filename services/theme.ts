@@ -0,0 +1,164 @@
+// Themes for Glacial Breath
+// Every colour class in the app reads a CSS variable (see tailwind.config.js): `slate` is the surface
+// scale, `white` the foreground, and cyan/rose/emerald/indigo are the breathing, retention, recovery
+// and rest accents. A theme is just a set of values for those variables.
+
+import { AccentPhase, ThemeId, ThemeSettings } from '../types';
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Hex colours, one per entry in SHADES
+type Scale = string[];
+
+const SLATE: Scale = ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'];
+const CYAN: Scale = ['#ecfeff', '#cffafe', '#a5f3fc', '#67e8f9', '#22d3ee', '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', '#083344'];
+const ROSE: Scale = ['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519'];
+const EMERALD: Scale = ['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22'];
+const INDIGO: Scale = ['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b'];
+const AMBER: Scale = ['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03'];
+
+// Which Tailwind palette each phase accent drives, and its stock colours
+const ACCENT_PALETTES: Record<AccentPhase, { name: string; scale: Scale }> = {
+  breathing: { name: 'cyan', scale: CYAN },
+  retention: { name: 'rose', scale: ROSE },
+  recovery: { name: 'emerald', scale: EMERALD },
+  rest: { name: 'indigo', scale: INDIGO },
+};
+
+export const ACCENT_PHASES = Object.keys(ACCENT_PALETTES) as AccentPhase[];
+
+// The 500 shade of each stock accent, for colour pickers
+export const defaultAccent = (phase: AccentPhase) => ACCENT_PALETTES[phase].scale[5];
+
+interface ThemeDefinition {
+  surface: Scale; // drives the `slate` classes; 900 is the page background
+  foreground: string; // drives `white`
+  accentShift: number; // shades to move every accent by, positive is darker
+}
+
+const THEMES: Record<ThemeId, ThemeDefinition> = {
+  dark: { surface: SLATE, foreground: '#ffffff', accentShift: 0 },
+  // Large areas are pure black so OLED pixels switch off; controls stay just visible
+  oled: {
+    surface: [...SLATE.slice(0, 7), '#27272a', '#0a0a0a', '#000000', '#000000'],
+    foreground: '#ffffff',
+    accentShift: 0,
+  },
+  // Mirrored surfaces, and accents darkened so they read on white
+  light: { surface: [...SLATE].reverse(), foreground: SLATE[9], accentShift: 2 },
+  // Black and near-white only, with brighter accents
+  contrast: {
+    surface: ['#ffffff', '#ffffff', '#f8fafc', '#f1f5f9', '#e2e8f0', '#e2e8f0', '#cbd5e1', '#262626', '#0a0a0a', '#000000', '#000000'],
+    foreground: '#ffffff',
+    accentShift: -1,
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+const isHex = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const channels = (hex: string) =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+// Positive values mix towards white, negative towards black; the chosen colour becomes the 500 shade
+const SHADE_MIX = [0.95, 0.9, 0.75, 0.55, 0.3, 0, -0.15, -0.3, -0.45, -0.6, -0.75];
+
+const mix = (hex: string, amount: number) => {
+  const target = amount > 0 ? 255 : 0;
+  const weight = Math.abs(amount);
+  const mixed = [1, 3, 5].map(i => {
+    const value = parseInt(hex.slice(i, i + 2), 16);
+    return Math.round(value + (target - value) * weight).toString(16).padStart(2, '0');
+  });
+  return `#${mixed.join('')}`;
+};
+
+const scaleFrom = (hex: string): Scale => SHADE_MIX.map(amount => mix(hex, amount));
+
+const shift = (scale: Scale, by: number): Scale =>
+  scale.map((_, i) => scale[Math.min(scale.length - 1, Math.max(0, i + by))]);
+
+export const sanitizeTheme = (value: Partial<ThemeSettings> | null | undefined): ThemeSettings => {
+  const accents: ThemeSettings['accents'] = {};
+  ACCENT_PHASES.forEach(phase => {
+    const hex = value?.accents?.[phase];
+    if (isHex(hex)) accents[phase] = hex.toLowerCase();
+  });
+  return {
+    theme: value?.theme && value.theme in THEMES ? value.theme : 'dark',
+    accents,
+  };
+};
+
+// A themed colour for places classes can't reach, e.g. SVG strokes: themeColor('rose', 500, 0.3)
+export const themeColor = (palette: string, shade: number, alpha = 1) =>
+  alpha === 1 ? `rgb(var(--${palette}-${shade}))` : `rgb(var(--${palette}-${shade}) / ${alpha})`;
+
+// -- Applying --
+
+// The fields rewritten here; anything else in the manifest is passed through untouched
+interface WebManifest {
+  start_url?: string;
+  scope?: string;
+  icons?: { src: string; [key: string]: unknown }[];
+  [key: string]: unknown;
+}
+
+let manifest: Promise<WebManifest | null> | null = null;
+let manifestUrl: string | null = null;
+
+// Installed apps take their splash and title bar colours from the manifest, so serve a patched copy.
+// URLs inside it are made absolute because a blob: manifest has no base of its own.
+const updateManifest = async (color: string) => {
+  const link = document.querySelector<HTMLLinkElement>('link[rel="manifest"]');
+  if (!link) return;
+  const source = link.dataset.source ?? link.href;
+  link.dataset.source = source;
+
+  manifest ??= fetch(source)
+    .then(response => response.json() as Promise<WebManifest>)
+    .catch(err => {
+      console.warn('Could not load the manifest', err);
+      return null;
+    });
+  const original = await manifest;
+  if (!original) return;
+
+  const absolute = (url: string) => new URL(url, source).href;
+  const patched = {
+    ...original,
+    start_url: absolute(original.start_url ?? '/'),
+    scope: absolute(original.scope ?? '/'),
+    icons: (original.icons ?? []).map(icon => ({ ...icon, src: absolute(icon.src) })),
+    theme_color: color,
+    background_color: color,
+  };
+  if (manifestUrl) URL.revokeObjectURL(manifestUrl);
+  manifestUrl = URL.createObjectURL(new Blob([JSON.stringify(patched)], { type: 'application/manifest+json' }));
+  link.href = manifestUrl;
+};
+
+export const applyTheme = (settings: ThemeSettings) => {
+  const theme = THEMES[settings.theme];
+  const root = document.documentElement;
+  const setScale = (palette: string, scale: Scale) =>
+    scale.forEach((hex, i) => root.style.setProperty(`--${palette}-${SHADES[i]}`, channels(hex)));
+
+  setScale('slate', theme.surface);
+  root.style.setProperty('--white', channels(theme.foreground));
+  root.style.setProperty('--black', '0 0 0');
+  ACCENT_PHASES.forEach(phase => {
+    const { name, scale } = ACCENT_PALETTES[phase];
+    const custom = settings.accents[phase];
+    setScale(name, shift(custom ? scaleFrom(custom) : scale, theme.accentShift));
+  });
+  setScale('amber', shift(AMBER, theme.accentShift));
+
+  root.dataset.theme = settings.theme;
+  root.style.colorScheme = settings.theme === 'light' ? 'light' : 'dark';
+
+  const background = theme.surface[9];
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', background);
+  updateManifest(background);
+};
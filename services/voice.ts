@@ -0,0 +1,155 @@
+// Voice coach for Glacial Breath
+// Speaks session cues through the Web Speech API and ducks the breath sounds while talking
+
+import { SessionPhase, VoiceSettings, VoiceVerbosity } from '../types';
+import { SessionEvent, SessionListener } from './sessionEngine';
+import { duckBreath } from './audio';
+
+export interface VoicePhrases {
+  lang: string; // BCP 47 tag passed to SpeechSynthesisUtterance
+  label: string; // shown in the settings picker
+  round: (round: number, total: number) => string;
+  breathCount: (count: number) => string;
+  lastBreath: string;
+  prepare: string;
+  retentionMilestone: (seconds: number) => string;
+  recovery: string;
+  complete: string;
+}
+
+const english: VoicePhrases = {
+  lang: 'en-US',
+  label: 'English',
+  round: (round, total) => (round === total ? 'Final round' : `Round ${round}`),
+  breathCount: count => `${count}`,
+  lastBreath: 'Last breath, let it go and hold',
+  prepare: 'Get comfortable and relax',
+  retentionMilestone: seconds => {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    if (m === 0) return `${s} seconds`;
+    return s === 0 ? `${m} ${m === 1 ? 'minute' : 'minutes'}` : `${m} minute${m === 1 ? '' : 's'} ${s}`;
+  },
+  recovery: 'Breathe in and hold',
+  complete: 'Session complete. Breathe normally',
+};
+
+const chinese: VoicePhrases = {
+  lang: 'zh-CN',
+  label: '中文',
+  round: (round, total) => (round === total ? '最后一轮' : `第${round}轮`),
+  breathCount: count => `${count}`,
+  lastBreath: '最后一次呼吸，呼气，屏住',
+  prepare: '找个舒服的姿势，放松',
+  retentionMilestone: seconds => {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    if (m === 0) return `${s}秒`;
+    return s === 0 ? `${m}分钟` : `${m}分${s}秒`;
+  },
+  recovery: '吸气，屏住',
+  complete: '练习结束，恢复自然呼吸',
+};
+
+const phraseTables: Record<string, VoicePhrases> = { en: english, zh: chinese };
+
+// Add or replace a phrase table, e.g. registerPhrases('de', german)
+export const registerPhrases = (id: string, phrases: VoicePhrases) => {
+  phraseTables[id] = phrases;
+};
+
+export const getPhraseTables = () => ({ ...phraseTables });
+
+const VERBOSITY_LEVEL: Record<VoiceVerbosity, number> = {
+  off: 0,
+  minimal: 1, // settling in, rounds, last breath, recovery, completion
+  standard: 2, // + retention milestones
+  detailed: 3, // + breath counts
+};
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Overlapping utterances share one duck
+let speaking = 0;
+
+const speak = (text: string, phrases: VoicePhrases) => {
+  if (!isSpeechSupported()) return;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = phrases.lang;
+  utterance.rate = 0.95;
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang.startsWith(phrases.lang.split('-')[0]));
+  if (voice) utterance.voice = voice;
+
+  const release = () => {
+    speaking = Math.max(0, speaking - 1);
+    if (speaking === 0) duckBreath(false);
+  };
+  utterance.onstart = () => {
+    speaking += 1;
+    duckBreath(true);
+  };
+  utterance.onend = release;
+  utterance.onerror = release;
+
+  window.speechSynthesis.speak(utterance);
+};
+
+export const cancelSpeech = () => {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+  speaking = 0;
+  duckBreath(false);
+};
+
+// Returns a session listener that decides what to say for each engine event
+export const createVoiceCoach = (settings: VoiceSettings): SessionListener => {
+  const level = VERBOSITY_LEVEL[settings.verbosity];
+  const phrases = phraseTables[settings.phrases] ?? english;
+  let lastMilestone = 0;
+  let announcedRound = 0;
+
+  return (event: SessionEvent, state) => {
+    if (level === 0) return;
+
+    switch (event.type) {
+      case 'phase':
+        if (event.phase === SessionPhase.IDLE) {
+          announcedRound = 0;
+          cancelSpeech();
+        }
+        if (event.phase === SessionPhase.BREATHING && state.round !== announcedRound) {
+          announcedRound = state.round;
+          speak(phrases.round(state.round, state.totalRounds), phrases);
+        }
+        if (event.phase === SessionPhase.PREPARE && state.round === 1) speak(phrases.prepare, phrases);
+        if (event.phase === SessionPhase.RETENTION) lastMilestone = 0;
+        if (event.phase === SessionPhase.RECOVERY) speak(phrases.recovery, phrases);
+        if (event.phase === SessionPhase.COMPLETED) speak(phrases.complete, phrases);
+        break;
+
+      case 'inhale':
+        if (state.phase !== SessionPhase.BREATHING || state.breathCount <= 1) break;
+        if (state.breathCount === state.breathTarget) {
+          speak(phrases.lastBreath, phrases);
+        } else if (level >= 3 && state.breathCount % settings.countInterval === 0) {
+          speak(phrases.breathCount(state.breathCount), phrases);
+        }
+        break;
+
+      case 'pause':
+        cancelSpeech();
+        break;
+
+      case 'tick': {
+        if (state.phase !== SessionPhase.RETENTION || level < 2) break;
+        const milestone = Math.floor(event.elapsed / settings.milestoneSeconds);
+        if (milestone > lastMilestone) {
+          lastMilestone = milestone;
+          speak(phrases.retentionMilestone(milestone * settings.milestoneSeconds), phrases);
+        }
+        break;
+      }
+    }
+  };
+};
@@ -1,27 +1,48 @@
-const CACHE_NAME = 'glacial-breath-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/index.tsx',
-  '/index.css',
-  '/manifest.json',
-];
+// Service worker for Glacial Breath
+// This file is a template: the Vite build fills in the precache manifest and cache version from its
+// hashed output and emits the result as dist/sw.js (see precacheServiceWorker in vite.config.ts)
+
+const CACHE_PREFIX = 'glacial-breath-';
+const CACHE_NAME = CACHE_PREFIX + '__CACHE_VERSION__';
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST;
+const APP_SHELL = '/index.html';
 
 self.addEventListener('install', (event) => {
-  self.skipWaiting(); // Activate worker immediately
+  // No skipWaiting here: a new version waits until the page asks for it (see services/serviceWorker.ts)
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim()); // Take control of all clients
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
 self.addEventListener('fetch', (event) => {
-  // Network first, falling back to cache strategy
-  // This ensures user always gets latest version if online, but app works if offline
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Cache first: everything the app needs is precached, so offline never waits on a network timeout
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(APP_SHELL).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
   event.respondWith(
-    fetch(event.request)
-      .catch(() => {
-        return caches.match(event.request);
-      })
+    caches.match(request).then((cached) => cached || fetch(request))
   );
-});
\ No newline at end of file
+});
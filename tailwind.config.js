@@ -1,3 +1,7 @@
+// Palettes the app uses are CSS variables holding "r g b" channels, set at runtime by services/theme.ts
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+const themed = (name) => Object.fromEntries(SHADES.map(shade => [shade, `rgb(var(--${name}-${shade}) / <alpha-value>)`]));
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -6,6 +10,16 @@ export default {
   ],
   theme: {
     extend: {
+      colors: {
+        white: 'rgb(var(--white) / <alpha-value>)',
+        black: 'rgb(var(--black) / <alpha-value>)',
+        slate: themed('slate'), // surfaces and secondary text
+        cyan: themed('cyan'), // breathing, and the app's primary accent
+        rose: themed('rose'), // retention
+        emerald: themed('emerald'), // recovery
+        indigo: themed('indigo'), // rest
+        amber: themed('amber'), // personal bests and warnings
+      },
       animation: {
         'bounce-slow': 'bounce 3s infinite',
         'fade-in': 'fadeIn 0.5s ease-out',
@@ -22,4 +36,4 @@ export default {
     },
   },
   plugins: [],
-}
\ No newline at end of file
+}
@@ -3,23 +3,222 @@ export enum SessionPhase {
   PREPARE = 'PREPARE',
   BREATHING = 'BREATHING', // The 30-40 deep breaths
   RETENTION = 'RETENTION', // The long hold on exhale
-  RECOVERY = 'RECOVERY',   // The 15s hold on inhale
+  RECOVERY = 'RECOVERY',   // The short hold on inhale
+  REST = 'REST',           // Timed pause without a breathing cue
   COMPLETED = 'COMPLETED'
 }
 
+export type HoldAlarmLevel = 'chime' | 'alarm'; // the max-hold chime, then the escalated alarm
+
+export interface HoldAlarm {
+  level: HoldAlarmLevel;
+  at: number; // seconds into the hold
+}
+
+// One reading from a heart-rate strap, tagged with where in the session it was taken
+export interface HeartRateSample {
+  t: number; // seconds since the session started
+  bpm: number;
+  phase: SessionPhase;
+  round: number;
+  rr?: number[]; // beat-to-beat intervals in ms, when the strap sends them
+}
+
 export interface SessionStats {
   round: number;
   retentionTime: number; // in seconds
+  alarms?: HoldAlarm[]; // only present when the hold ran past the maximum
+  breathsPerMinute?: number; // measured by the microphone; only present when the round followed real breaths
+}
+
+export interface RoundSettings {
+  breathsPerRound: number;
+  tempoMs: number;
 }
 
 export interface BreathingSettings {
   breathsPerRound: number;
   tempoMs: number; // milliseconds per breath cycle
+  inhaleRatio: number; // share of each cycle spent breathing in, 0.5 splits it evenly
   totalRounds: number;
+  roundOverrides: Partial<RoundSettings>[]; // per-round exceptions, index 0 = round 1
+  recoveryHoldSeconds: number;
+  extraFinalRound: boolean; // appends one more round after totalRounds
+  protocolId: string; // which BreathingProtocol to run
+  prepareSeconds: number; // settle-in countdown before the first round, 0 starts straight away
+  settleBreaths: number; // relaxed breaths ahead of that countdown
+  roundRestSeconds: number; // countdown between rounds, 0 keeps the short fixed gap
 }
 
 export const DEFAULT_SETTINGS: BreathingSettings = {
   breathsPerRound: 30,
   tempoMs: 3500, // 3.5s per full breath
+  inhaleRatio: 0.5,
   totalRounds: 3,
-};
\ No newline at end of file
+  roundOverrides: [],
+  recoveryHoldSeconds: 15,
+  extraFinalRound: false,
+  protocolId: 'wim-hof',
+  prepareSeconds: 10,
+  settleBreaths: 0,
+  roundRestSeconds: 0,
+};
+
+export type VoiceVerbosity = 'off' | 'minimal' | 'standard' | 'detailed';
+
+export const VOICE_VERBOSITIES: VoiceVerbosity[] = ['off', 'minimal', 'standard', 'detailed'];
+
+export interface VoiceSettings {
+  verbosity: VoiceVerbosity;
+  countInterval: number; // speak every Nth breath (detailed only)
+  milestoneSeconds: number; // retention call-outs (standard and up)
+  phrases: string; // phrase table id, see services/voice.ts
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  verbosity: 'off',
+  countInterval: 10,
+  milestoneSeconds: 30,
+  phrases: 'en',
+};
+
+export type HapticPatternId = 'off' | 'tap' | 'rising' | 'fading' | 'heartbeat' | 'countdown';
+
+export interface HapticSettings {
+  inhale: HapticPatternId;
+  exhale: HapticPatternId;
+  retention: HapticPatternId; // repeated every heartbeatSeconds during the hold
+  heartbeatSeconds: number;
+  recovery: HapticPatternId; // counts down the end of the recovery hold
+  intensity: number; // 0 to 1, 0 turns haptics off
+  silent: boolean; // haptics only: no breath sounds, soundscape or voice
+}
+
+export const DEFAULT_HAPTIC_SETTINGS: HapticSettings = {
+  inhale: 'tap',
+  exhale: 'tap',
+  retention: 'off',
+  heartbeatSeconds: 10,
+  recovery: 'off',
+  intensity: 0.5,
+  silent: false,
+};
+
+export interface SessionPreferences {
+  autoPauseWhenHidden: boolean; // pause when the tab or app goes to the background
+  confirmSafeEnvironment: boolean; // ask "not in water / not driving" before each session
+  maxHoldSeconds: number; // retention longer than this chimes, then raises the alarm
+  followMicrophone: boolean; // count breaths heard by the microphone instead of pacing them
+}
+
+export const DEFAULT_PREFERENCES: SessionPreferences = {
+  autoPauseWhenHidden: true,
+  confirmSafeEnvironment: true,
+  maxHoldSeconds: 180,
+  followMicrophone: false,
+};
+
+export type ThemeId = 'dark' | 'oled' | 'light' | 'contrast';
+export type AccentPhase = 'breathing' | 'retention' | 'recovery' | 'rest';
+
+export interface ThemeSettings {
+  theme: ThemeId;
+  accents: Partial<Record<AccentPhase, string>>; // hex colours that replace a phase's default accent
+}
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  theme: 'dark',
+  accents: {},
+};
+
+export type ReverbPreset = 'off' | 'room' | 'hall' | 'glacier';
+export type SoundscapeId = 'none' | 'wind' | 'ocean' | 'rain' | 'drone';
+export type BinauralBeat = 'off' | 'theta' | 'alpha'; // 6 Hz / 10 Hz difference between ears
+
+export const SOUNDSCAPE_IDS: SoundscapeId[] = ['none', 'wind', 'ocean', 'rain', 'drone'];
+export const BINAURAL_BEATS: BinauralBeat[] = ['off', 'theta', 'alpha'];
+
+export interface MixerSettings {
+  masterVolume: number; // 0 to 1
+  muted: boolean;
+  airLevel: number; // breath noise, 0 to 1
+  droneLevel: number; // tonal guide, 0 to 1
+  bellLevel: number; // 0 to 1
+  ambienceLevel: number; // background soundscape, 0 to 1
+  reverb: ReverbPreset;
+  reverbMix: number; // wet level, 0 to 1
+  soundscape: SoundscapeId;
+  binauralBeat: BinauralBeat;
+}
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  masterVolume: 1,
+  muted: false,
+  airLevel: 1,
+  droneLevel: 1,
+  bellLevel: 1,
+  ambienceLevel: 0.6,
+  reverb: 'off',
+  reverbMix: 0.3,
+  soundscape: 'none',
+  binauralBeat: 'off',
+};
+
+// One building block of a protocol round
+export type ProtocolStep =
+  | { type: 'paced'; inhaleMs: number; holdInMs: number; exhaleMs: number; holdOutMs: number; cycles: number }
+  | { type: 'openHold' }                       // hold on exhale until the user ends it (retention)
+  | { type: 'timedHold'; durationMs: number }  // inhale and hold for a fixed time (recovery)
+  | { type: 'rest'; durationMs: number };      // silent pause
+
+export interface BreathingProtocol {
+  id: string;
+  name: string;
+  rounds: number;
+  steps: ProtocolStep[]; // the steps of a single round
+  builtIn?: boolean;
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number; // epoch milliseconds
+  durationMs: number;
+  completed: boolean; // false when the session was stopped early
+  settings: BreathingSettings;
+  protocolName?: string;
+  profileId?: string; // owner; absent only in files from before profiles existed
+  stats: SessionStats[];
+  heartRate?: HeartRateSample[]; // only when a strap was connected
+}
+
+// Snapshot of a running session, written on every transition so a reload or crash loses nothing
+export interface SessionCheckpoint {
+  startedAt: number; // epoch milliseconds
+  savedAt: number;
+  phase: SessionPhase;
+  round: number;
+  totalRounds: number;
+  step: number; // index within the round's steps
+  breathCount: number;
+  stats: SessionStats[];
+  settings: BreathingSettings;
+  protocol: BreathingProtocol;
+  profileId?: string;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string; // e.g. "Morning quick"
+  settings: BreathingSettings;
+}
+
+// One person sharing the device: their own settings, presets and session history
+export interface Profile {
+  id: string;
+  name: string;
+  settings: BreathingSettings;
+  voice: VoiceSettings;
+  haptics: HapticSettings;
+  preferences: SessionPreferences;
+  presets: SettingsPreset[];
+}
@@ -0,0 +1,16 @@
+import { BreathStage } from '../services/sessionEngine';
+
+// Slow at both ends like a real breath
+export const easeInOutSine = (t: number) => -(Math.cos(Math.PI * t) - 1) / 2;
+
+// How full the lungs are at `now`: 0 empty, 1 full, eased across the stage's actual duration.
+// Before the stage starts (the audio clock schedules ahead) it reads as the end of the previous one.
+export const breathFullness = (stage: BreathStage, stageStartedAt: number, stageDurationMs: number, now: number) => {
+  const t = stageDurationMs > 0 ? Math.min(1, Math.max(0, (now - stageStartedAt) / stageDurationMs)) : 1;
+  switch (stage) {
+    case 'inhale': return easeInOutSine(t);
+    case 'holdIn': return 1;
+    case 'exhale': return 1 - easeInOutSine(t);
+    case 'holdOut': return 0;
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { RetentionPoint, rollingAverage, roundTrends } from './progress';
+
+const hold = (round: number, retentionTime: number): RetentionPoint => ({ startedAt: 0, round, retentionTime });
+
+describe('rollingAverage', () => {
+  it('averages the trailing window, using what there is at the start', () => {
+    expect(rollingAverage([10, 20, 30, 40, 50], 3)).toEqual([10, 15, 20, 30, 40]);
+    expect(rollingAverage([10, 20], 5)).toEqual([10, 15]);
+    expect(rollingAverage([], 3)).toEqual([]);
+  });
+});
+
+describe('roundTrends', () => {
+  it('keeps a separate window for each round', () => {
+    // Two sessions of two rounds, then one of three
+    const points = [hold(1, 60), hold(2, 90), hold(1, 80), hold(2, 110), hold(1, 100), hold(2, 130), hold(3, 150)];
+    expect(roundTrends(points, 2)).toEqual([
+      { round: 1, points: [{ index: 0, average: 60 }, { index: 2, average: 70 }, { index: 4, average: 90 }] },
+      { round: 2, points: [{ index: 1, average: 90 }, { index: 3, average: 100 }, { index: 5, average: 120 }] },
+      { round: 3, points: [{ index: 6, average: 150 }] },
+    ]);
+  });
+
+  it('is empty without holds', () => {
+    expect(roundTrends([], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+// Aggregations over session history used by the progress dashboard
+import { SessionRecord, SessionStats } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface RetentionPoint {
+  startedAt: number;
+  round: number;
+  retentionTime: number;
+}
+
+export interface RoundTrend {
+  round: number;
+  points: { index: number; average: number }[]; // index into the retention series
+}
+
+export interface WeeklyPractice {
+  weekStart: number; // epoch ms, local Monday 00:00
+  minutes: number;
+}
+
+// Every recorded hold, oldest first
+export const retentionSeries = (sessions: SessionRecord[]): RetentionPoint[] =>
+  [...sessions]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .flatMap(session =>
+      session.stats.map(stat => ({
+        startedAt: session.startedAt,
+        round: stat.round,
+        retentionTime: stat.retentionTime,
+      }))
+    );
+
+// Trailing mean over the last `window` values (shorter at the start of the series)
+export const rollingAverage = (values: number[], window: number) =>
+  values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+
+// One rolling average per round index, so early and late rounds of a session are never averaged together
+export const roundTrends = (points: RetentionPoint[], window: number): RoundTrend[] =>
+  [...new Set(points.map(p => p.round))]
+    .sort((a, b) => a - b)
+    .map(round => {
+      const indices = points.flatMap((p, i) => (p.round === round ? [i] : []));
+      const averages = rollingAverage(indices.map(i => points[i].retentionTime), window);
+      return { round, points: indices.map((index, i) => ({ index, average: averages[i] })) };
+    });
+
+// Longest hold ever recorded for each round index
+export const bestHoldsByRound = (sessions: SessionRecord[]) => {
+  const bests: Record<number, number> = {};
+  sessions.forEach(session => {
+    session.stats.forEach(({ round, retentionTime }) => {
+      if (!(round in bests) || retentionTime > bests[round]) {
+        bests[round] = retentionTime;
+      }
+    });
+  });
+  return bests;
+};
+
+// Rounds in `stats` that beat an existing best for the same round index
+export const newPersonalBests = (stats: SessionStats[], previousBests: Record<number, number>) =>
+  new Set(
+    stats
+      .filter(({ round, retentionTime }) => round in previousBests && retentionTime > previousBests[round])
+      .map(({ round }) => round)
+  );
+
+const startOfWeek = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+};
+
+// Total practice minutes for each of the last `weeks` weeks, oldest first
+export const weeklyPracticeMinutes = (sessions: SessionRecord[], weeks: number, now = Date.now()): WeeklyPractice[] => {
+  const currentWeek = startOfWeek(now);
+  const buckets = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: startOfWeek(currentWeek - (weeks - 1 - i) * WEEK_MS + DAY_MS),
+    minutes: 0,
+  }));
+
+  sessions.forEach(session => {
+    const week = startOfWeek(session.startedAt);
+    const bucket = buckets.find(b => b.weekStart === week);
+    if (bucket) bucket.minutes += session.durationMs / 60000;
+  });
+
+  return buckets;
+};
@@ -0,0 +1,27 @@
+// JSON helpers around localStorage that never throw (quota, private mode, corrupt data)
+
+export const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.warn(`Could not read ${key}`, err);
+    return fallback;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${key}`, err);
+  }
+};
+
+export const removeStorage = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch (err) {
+    console.warn(`Could not remove ${key}`, err);
+  }
+};
@@ -1,7 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with a precache manifest of the hashed build output (index.html included, hence 'post').
+// The cache version is a hash of that list, so every deploy that changes an asset gets a fresh cache.
+const precacheServiceWorker = (): Plugin => ({
+  name: 'glacial-breath-precache',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const urls = Object.keys(bundle)
+      .filter(file => !file.endsWith('.map'))
+      .map(file => `/${file}`)
+      .sort();
+    const template = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+    const version = crypto.createHash('sha256').update(urls.join('\n')).update(template).digest('hex').slice(0, 12);
+
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__CACHE_VERSION__', version)
+        .replace('self.__PRECACHE_MANIFEST', JSON.stringify(urls, null, 2)),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +35,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)